@@ -0,0 +1,377 @@
+import type {
+  MdxJsxAttribute,
+  MdxJsxAttributeValueExpression,
+  MdxJsxExpressionAttribute
+} from 'mdast-util-mdx-jsx';
+
+import { valueToEstree } from 'estree-util-value-to-estree';
+
+import type {
+  MdxAttributeMergeMode,
+  MdxAttributePolicy,
+  MdxPropValue
+} from './types';
+
+/**
+ * Build an `mdxJsxAttributeValueExpression` backed by `data.estree`.
+ *
+ * The MDX ecosystem has two “channels” for attribute value expressions:
+ *
+ * 1) `value` (string)
+ *    - Historically used to store raw JavaScript source for the expression.
+ *    - Set to the empty string here to avoid relying on string parsing/printing.
+ *
+ * 2) `data.estree` (ESTree Program)
+ *    - Treated as the source of truth by unified/MDX tooling when present.
+ *    - Encoding the expression as an ESTree Program avoids cases where compilation
+ *      can degrade into `prop={}` / `JSXEmptyExpression`.
+ *
+ * Implementation notes:
+ * - `valueToEstree(value)` returns an ESTree *Expression*.
+ * - MDX tooling expects `data.estree` to be a *Program*, so the expression is wrapped
+ *   in a `Program` containing an `ExpressionStatement`.
+ */
+function createAttributeValueExpression(
+  value: MdxPropValue
+): MdxJsxAttributeValueExpression {
+  // (2) Serialize the runtime value into a structural ESTree Expression.
+  const expression = valueToEstree(value);
+
+  return {
+    type: 'mdxJsxAttributeValueExpression',
+
+    // (1) Intentionally empty: `data.estree` is the authoritative representation.
+    value: '',
+
+    data: {
+      // (2) Unified/MDX expects a Program, so the Expression is wrapped accordingly.
+      estree: {
+        type: 'Program',
+        sourceType: 'module',
+        body: [{ type: 'ExpressionStatement', expression }]
+      }
+    }
+  };
+}
+
+/**
+ * Convert one prop entry (`name` + `value`) into an `mdxJsxAttribute` node.
+ *
+ * This function decides how the attribute value is represented in the MDX AST:
+ *
+ * 1) Boolean attribute presence (`true`)
+ *    - MDX encodes “present boolean attributes” by setting `attribute.value = null`.
+ *      That AST shape prints as `<X enabled />`.
+ *    - This preserves presence semantics instead of emitting an explicit expression
+ *      like `enabled={true}`.
+ *
+ * 2) Everything else (strings, numbers, objects, arrays, Map/Set, etc.)
+ *    - Emitted as an `mdxJsxAttributeValueExpression` and backed by a `data.estree`
+ *      Program so the MDX toolchain can compile it reliably.
+ *
+ * Failure mode:
+ * - `createAttributeValueExpression` (via `valueToEstree`) can reject values that
+ *   cannot be represented as an ESTree expression. In that case, the thrown error
+ *   is wrapped to include the prop name for actionable build-time feedback.
+ */
+export function toMdxAttribute(
+  propName: string,
+  propValue: MdxPropValue
+): MdxJsxAttribute {
+  // Case 1: `true` is encoded as boolean attribute presence (`value: null`).
+  if (propValue === true) {
+    return { type: 'mdxJsxAttribute', name: propName, value: null };
+  }
+
+  try {
+    // Case 2: non-`true` values are encoded as an expression (`prop={...}`),
+    // backed by `data.estree` for the MDX compiler.
+    return {
+      type: 'mdxJsxAttribute',
+      name: propName,
+      value: createAttributeValueExpression(propValue)
+    };
+  } catch (error) {
+    // Serializer failures become actionable by including the failing prop name
+    // while preserving the original message (when available).
+    const message =
+      error instanceof Error ? error.message : 'Unknown serialization error';
+
+    throw new Error(
+      `Failed to serialize MDX prop "${propName}" into an attribute expression: ${message}`
+    );
+  }
+}
+
+/**
+ * Builds an MDX JSX attribute list from a props object.
+ *
+ * Purpose:
+ * - Convert a plain `{ [propName]: propValue }` map into an array of `mdxJsxAttribute` nodes.
+ * - Apply the one piece of list-level policy we need here:
+ *   - `undefined` means “no attribute” (the key is skipped).
+ *
+ * All per-value encoding rules (boolean presence vs expression-backed values, etc.)
+ * are handled by `toMdxAttribute`.
+ */
+export function buildAttributes(
+  props: Record<string, MdxPropValue | undefined> | undefined
+): MdxJsxAttribute[] {
+  if (!props) return [];
+
+  const entries = Object.entries(props);
+
+  const attributes: MdxJsxAttribute[] = [];
+  for (const [propName, propValue] of entries) {
+    // `undefined` means “do not emit this attribute at all”.
+    if (propValue === undefined) continue;
+
+    attributes.push(toMdxAttribute(propName, propValue));
+  }
+
+  return attributes;
+}
+
+type SourceAttribute = MdxJsxAttribute | MdxJsxExpressionAttribute;
+
+/**
+ * `MdxAttributePolicy` expanded into one explicit object shape.
+ */
+type NormalizedAttributePolicy = {
+  mode: MdxAttributeMergeMode;
+  allow?: ReadonlySet<string>;
+  deny?: ReadonlySet<string>;
+  spreads: 'keep' | 'drop';
+};
+
+/**
+ * Expands the shorthand (`"merge-target-wins"`) and object forms of an
+ * attribute policy into a single shape with defaults applied.
+ */
+function normalizeAttributePolicy(
+  policy: MdxAttributePolicy = 'replace'
+): NormalizedAttributePolicy {
+  if (typeof policy === 'string') {
+    return { mode: policy, spreads: 'keep' };
+  }
+
+  return {
+    mode: policy.mode,
+    allow: policy.allow ? new Set(policy.allow) : undefined,
+    deny: policy.deny ? new Set(policy.deny) : undefined,
+    spreads: policy.spreads ?? 'keep'
+  };
+}
+
+/**
+ * Collision key for an attribute / prop name.
+ *
+ * `class` and `className` address the same DOM attribute, so both map to
+ * `className` when detecting collisions and merging tokens.
+ */
+const toAttributeKey = (name: string): string =>
+  name === 'class' ? 'className' : name;
+
+/**
+ * Selects the source attributes a policy carries over to the renamed element.
+ *
+ * - Spreads follow `spreads` (name filters cannot apply to them).
+ * - Named attributes follow `allow` / `deny` (matched by exact name).
+ */
+function selectSourceAttributes(
+  sourceAttributes: ReadonlyArray<SourceAttribute>,
+  policy: NormalizedAttributePolicy
+): SourceAttribute[] {
+  return sourceAttributes.filter(attribute => {
+    if (attribute.type === 'mdxJsxExpressionAttribute') {
+      return policy.spreads === 'keep';
+    }
+
+    if (policy.allow) return policy.allow.has(attribute.name);
+    if (policy.deny) return !policy.deny.has(attribute.name);
+    return true;
+  });
+}
+
+/**
+ * Splits a class list into unique tokens, in first-seen order.
+ */
+const toClassTokens = (...classLists: string[]): string[] =>
+  [...new Set(classLists.flatMap(classList => classList.split(/\s+/)))].filter(
+    Boolean
+  );
+
+/**
+ * Merges a literal source class attribute into the target props.
+ *
+ * Merging happens only when both sides are string literals:
+ * - source: `className="lead"` / `class="lead"` (not `className={expr}`)
+ * - target: `props.className` / `props.class` is a string
+ *
+ * On success, the merged token list replaces the target prop (under the target's
+ * own key) and the source class attribute is removed from `carried`, so the
+ * collision rules below never see it.
+ */
+function mergeClassTokens(
+  carried: SourceAttribute[],
+  targetProps: Record<string, MdxPropValue | undefined>
+): void {
+  const sourceIndex = carried.findIndex(
+    attribute =>
+      attribute.type === 'mdxJsxAttribute' &&
+      toAttributeKey(attribute.name) === 'className' &&
+      typeof attribute.value === 'string'
+  );
+  if (sourceIndex === -1) return;
+
+  const targetKey = Object.keys(targetProps).find(
+    key => toAttributeKey(key) === 'className'
+  );
+  if (targetKey === undefined) return;
+
+  const targetValue = targetProps[targetKey];
+  if (typeof targetValue !== 'string') return;
+
+  const sourceValue = (carried[sourceIndex] as MdxJsxAttribute).value as string;
+
+  targetProps[targetKey] = toClassTokens(sourceValue, targetValue).join(' ');
+  carried.splice(sourceIndex, 1);
+}
+
+/**
+ * Copies scope attributes onto a renamed element (`inheritFromScope`).
+ *
+ * - Each mapping entry is `target prop name → scope attribute name`.
+ * - The last scope attribute with that name wins (JSX override order).
+ * - The attribute node is deep-cloned and renamed to the target prop, so
+ *   literal and expression values are both carried over unchanged.
+ * - Scope attributes that are not set produce nothing (spreads are never read).
+ *
+ * @param scopeAttributes - Attributes of the enclosing scope element.
+ * @param inheritFromScope - The rename target's inheritance mapping.
+ * @returns Attributes to emit on the renamed element.
+ */
+export function inheritScopeAttributes(
+  scopeAttributes: ReadonlyArray<SourceAttribute>,
+  inheritFromScope: Readonly<Record<string, string>> | undefined
+): MdxJsxAttribute[] {
+  if (!inheritFromScope) return [];
+
+  const inherited: MdxJsxAttribute[] = [];
+
+  for (const [propName, scopeAttributeName] of Object.entries(
+    inheritFromScope
+  )) {
+    const scopeAttribute = [...scopeAttributes]
+      .reverse()
+      .find(
+        (attribute): attribute is MdxJsxAttribute =>
+          attribute.type === 'mdxJsxAttribute' &&
+          attribute.name === scopeAttributeName
+      );
+    if (!scopeAttribute) continue;
+
+    inherited.push({ ...structuredClone(scopeAttribute), name: propName });
+  }
+
+  return inherited;
+}
+
+/**
+ * Resolves the final attribute list of a renamed element.
+ *
+ * Inputs:
+ * - `sourceAttributes`: attributes currently on the element (before renaming).
+ * - `targetProps`: the rename target's resolved `component.props`.
+ * - `policy`: the target's `transformOptions.attributePolicy`.
+ * - `inherited`: attributes copied from the scope (`inheritScopeAttributes`).
+ *   They belong to the target side and replace same-named target props; with
+ *   `"preserve-source"` they are still emitted and replace same-named source
+ *   attributes.
+ *
+ * Output order (later JSX attributes override earlier ones):
+ * - `"replace"`:           target attributes
+ * - `"preserve-source"`:   carried source attributes (minus collisions), then inherited attributes
+ * - `"merge-target-wins"`: carried source attributes (minus collisions), then target attributes
+ * - `"merge-source-wins"`: target attributes (minus collisions), then carried source attributes
+ *
+ * Example:
+ *   <p id="intro" className="lead">  +  { className: "alert", variant: "red" }
+ *   merge-target-wins → <X id="intro" className="lead alert" variant="red">
+ *
+ * @param sourceAttributes - Attributes of the element being renamed.
+ * @param targetProps - Props authored on the rename target.
+ * @param policy - Attribute policy (defaults to `"replace"`).
+ * @param inherited - Attributes inherited from the enclosing scope.
+ * @returns The attribute list to assign to the renamed element.
+ */
+export function resolveAttributes(
+  sourceAttributes: ReadonlyArray<SourceAttribute>,
+  targetProps: Record<string, MdxPropValue | undefined> | undefined,
+  policy?: MdxAttributePolicy,
+  inherited: ReadonlyArray<MdxJsxAttribute> = []
+): SourceAttribute[] {
+  const normalized = normalizeAttributePolicy(policy);
+
+  const carried =
+    normalized.mode === 'replace'
+      ? []
+      : selectSourceAttributes(sourceAttributes, normalized);
+
+  // Inherited scope attributes replace same-named target props.
+  const inheritedKeys = new Set(
+    inherited.map(attribute => toAttributeKey(attribute.name))
+  );
+
+  if (normalized.mode === 'preserve-source') {
+    return [
+      ...carried.filter(
+        attribute =>
+          attribute.type === 'mdxJsxExpressionAttribute' ||
+          !inheritedKeys.has(toAttributeKey(attribute.name))
+      ),
+      ...inherited
+    ];
+  }
+
+  // Work on a copy so the (shared, static) rule props are never mutated.
+  const props: Record<string, MdxPropValue | undefined> = { ...targetProps };
+  mergeClassTokens(carried, props);
+
+  const targetAttributes = [
+    ...buildAttributes(props).filter(
+      attribute => !inheritedKeys.has(toAttributeKey(attribute.name))
+    ),
+    ...inherited
+  ];
+
+  if (normalized.mode === 'replace') return targetAttributes;
+
+  const targetKeys = new Set(
+    targetAttributes.map(attribute => toAttributeKey(attribute.name))
+  );
+  const carriedNameKeys = new Set(
+    carried.flatMap(attribute =>
+      attribute.type === 'mdxJsxAttribute'
+        ? [toAttributeKey(attribute.name)]
+        : []
+    )
+  );
+
+  if (normalized.mode === 'merge-target-wins') {
+    const survivors = carried.filter(
+      attribute =>
+        attribute.type === 'mdxJsxExpressionAttribute' ||
+        !targetKeys.has(toAttributeKey(attribute.name))
+    );
+
+    return [...survivors, ...targetAttributes];
+  }
+
+  // `merge-source-wins`
+  const survivingTargetAttributes = targetAttributes.filter(
+    attribute => !carriedNameKeys.has(toAttributeKey(attribute.name))
+  );
+
+  return [...survivingTargetAttributes, ...carried];
+}
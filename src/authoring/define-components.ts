@@ -8,6 +8,7 @@ import {
 } from './orchestrator';
 
 import { stringKeysOf } from '../mdx/type-utils';
+import { flattenTransformRules } from '../rule-extends';
 
 /**
  * Transform rules keyed by component name.
@@ -23,6 +24,24 @@ type TransformRules<Registry extends PhantomRegistry> = Partial<
   Record<RegistryKeys<Registry>, MdxTransformRule>
 >;
 
+/**
+ * Checks the `extends` keys of a transform map (see `extend(...)`).
+ *
+ * - A rule extending a key with a rule in the same map passes (`unknown`).
+ * - Otherwise `extends` is intersected with an error message, so the editor
+ *   underlines the offending key:
+ *
+ *     NoteScope: ctx.transform(rule => rule.extend("CustomBlankLine"))
+ *     // Error: "CustomBlankLine" has no transform rule to extend
+ */
+type ExtendsCheck<Transforms> = {
+  [K in keyof Transforms]: Transforms[K] extends { extends: infer Base }
+    ? Base extends keyof Transforms
+      ? unknown
+      : { extends: `"${Base & string}" has no transform rule to extend` }
+    : unknown;
+};
+
 /**
  * Upgrade an entry’s `mdxTransform` metadata from optional → mandatory.
  *
@@ -54,7 +73,7 @@ type TransformRules<Registry extends PhantomRegistry> = Partial<
  *   which then breaks assignability against the original union.
  */
 type WithMdxTransform<Entry, Transform> = Entry & {
-  mdxTransform: NonNullable<Transform>;
+  mdxTransform: Omit<NonNullable<Transform>, 'extends' | 'omit'>;
 };
 
 /**
@@ -63,7 +82,8 @@ type WithMdxTransform<Entry, Transform> = Entry & {
  * What it does:
  * - Takes the original `registry` type.
  * - For every key that also exists in the `Transforms` map, it augments that entry
- *   with a concrete `mdxTransform` field whose type is `Transforms[K]`.
+ *   with a concrete `mdxTransform` field whose type is `Transforms[K]` (without
+ *   `extends` / `omit`, which are flattened away).
  * - Keys that are not present in `Transforms` are left unchanged.
  *
  * Example:
@@ -112,6 +132,8 @@ type RegistryWithTransforms<
  * Notes:
  * - The input registry object is never mutated.
  * - Transform rules are compile-time metadata (remark stage) stored on entries as `mdxTransform`.
+ * - Rules that `extend(...)` another key's rule are stored flattened (see
+ *   `flattenTransformRules`), so entries only carry plain rule data.
  */
 
 /**
@@ -130,13 +152,16 @@ export function defineComponents<Registry extends PhantomRegistry>(
  * @param registry - Component registry keyed by component name.
  * @param buildTransforms - Builds a partial map of component name → transform rule.
  * @returns A new registry object with `mdxTransform` attached to targeted entries.
+ * @throws When `extends` chains form a cycle.
  */
 export function defineComponents<
   Registry extends PhantomRegistry,
   Transforms extends TransformRules<Registry>
 >(
   registry: Registry,
-  buildTransforms: (mdx: TransformContextFor<Registry>) => Transforms
+  buildTransforms: (
+    mdx: TransformContextFor<Registry>
+  ) => Transforms & ExtendsCheck<Transforms>
 ): RegistryWithTransforms<Registry, Transforms>;
 
 /**
@@ -146,6 +171,7 @@ export function defineComponents<
  * 1) If no `buildTransforms` is provided, return `registry` unchanged.
  * 2) Otherwise:
  *    - Build a typed transform map via `buildTransforms(createTransformContext())`
+ *    - Flatten `extends` across the map (`flattenTransformRules`)
  *    - Shallow-clone the registry
  *    - Merge `{ mdxTransform: rule }` onto entries referenced by the transform map
  *
@@ -166,8 +192,11 @@ export function defineComponents<
   // Strongly-typed transform builder scoped to this registry (for authoring MDX rewrite rules).
   const transformBuilder = createTransformContext<Registry>();
 
-  // User-supplied transform map (partial: only components that need transforms).
-  const transformMap = buildTransforms(transformBuilder);
+  // User-supplied transform map (partial: only components that need transforms),
+  // with `extends` resolved into flat rules.
+  const transformMap: TransformRules<Registry> = flattenTransformRules(
+    buildTransforms(transformBuilder)
+  );
 
   // Creates a new registry object so transform metadata can be attached without
   // changing the input reference.
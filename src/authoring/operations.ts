@@ -1,11 +1,25 @@
 import type { PhantomRegistry } from '../mdx/entry-protocol';
 
-import type { MdxTransformRule } from '../types';
+import type { IsNever, If } from 'type-fest';
+
+import type {
+  MdxCascadeMode,
+  MdxGroupOptions,
+  MdxMarkdownMatch,
+  MdxMarkdownNodeType,
+  MdxRuleOmissions,
+  MdxScopeVariant,
+  MdxTransformRule
+} from '../types';
 import type {
   AllLinkedRenameTargets,
+  LinkedRenameCandidate,
+  MarkdownLinkedRenameTarget,
   RegistryKeys,
   RegistryRenameTarget
 } from './target-props-linking';
+import type { RawPropsOf, ScopeVariantMatchFor } from './transform-props';
+import type { SelectorKeysCheck, SelectorListCheck } from './selector-syntax';
 
 /**
  * The "Ground Truth" Operations.
@@ -22,6 +36,27 @@ import type {
  *              (`{ component: { name, props }, transformOptions }`).
  * - `flow(...)`: Wraps an authored rename map as `{ renameFlow: ... }`
  *                while keeping object-literal types precise.
+ * - `text(...)`: Wraps an authored rename map as `{ renameText: ... }`
+ *                (inline JSX elements; same typing as `flow(...)`).
+ * - `toMarkdown(...)`: Typed checkpoint for a markdown rename target
+ *                      (`to(...)` plus an optional `match`).
+ * - `markdown(...)`: Wraps an authored markdown rename map as
+ *                    `{ renameMarkdown: ... }`.
+ * - `wrap(...)`: Wraps an authored wrapper map as `{ wrapFlow: ... }`
+ *               (same typing as `flow(...)`).
+ * - `toGroup(...)`: Typed checkpoint for a group target (`to(...)` plus
+ *                   optional `groupOptions`).
+ * - `group(...)`: Wraps an authored group map as `{ groupFlow: ... }`.
+ * - `unwrap(...)` / `remove(...)`: Wrap selector lists as `{ unwrapFlow: ... }`
+ *                                  / `{ removeFlow: ... }`.
+ * - `prepend(...)` / `append(...)`: Wrap target lists as
+ *                                   `{ prependToScope: ... }` / `{ appendToScope: ... }`.
+ * - `when(...)`: Pairs a scope attribute match with the rule it selects
+ *                (one entry of `variants`).
+ * - `variants(...)`: Wraps authored scope variants as `{ variants: ... }`.
+ * - `cascade(...)`: Wraps a cascade mode as `{ cascade: ... }`.
+ * - `extend(...)`: Wraps a base rule's registry key (and omissions) as
+ *                  `{ extends: ..., omit: ... }`.
  * - `transform(...)`: Typed checkpoint for the final `MdxTransformRule`.
  *
  * Error handling (intentional editor feedback):
@@ -33,15 +68,54 @@ import type {
  * - Invalid prop values are caught with leaf errors:
  *   `props: { height: "5px" }` underlines `"5px"` if `height` is typed as `number`.
  *
+ * Scope-aware variant:
+ * - With `Scope` (the registry key of the scope the rule is authored for),
+ *   targets also accept `inheritFromScope`, typed against both the scope's
+ *   props and the target's props, and `when(...)` matches are checked against
+ *   the scope's props.
+ *
  * @template Registry - The component registry to validate against.
+ * @template Scope - Scope component the rule is authored for (`never` = unknown).
  * @returns The standard set of operations typed for the given registry.
  */
-export function getMdxOperations<Registry extends PhantomRegistry>() {
+export function getMdxOperations<
+  Registry extends PhantomRegistry,
+  Scope extends RegistryKeys<Registry> = never
+>() {
   // Alias 1: For the 'to' operation
   type ComponentName = RegistryKeys<Registry>;
 
-  // Alias 2: Authored `renameFlow` map (source tag name → rename target).
-  type RenameTargetsByTag = Record<string, AllLinkedRenameTargets<Registry>>;
+  // Alias 2: Authored `renameFlow` / `renameText` map (selector key → rename
+  // target, or an ordered `{ when, to }` candidate list).
+  type RenameTargetsByTag = Record<
+    string,
+    | AllLinkedRenameTargets<Registry, Scope>
+    | ReadonlyArray<LinkedRenameCandidate<Registry, Scope>>
+  >;
+
+  // Alias 3: Authored `renameMarkdown` map (mdast node type → rename target(s)).
+  type RenameTargetsByNodeType = {
+    [Type in MdxMarkdownNodeType]?:
+      | MarkdownLinkedRenameTarget<Registry, Type, Scope>
+      | ReadonlyArray<MarkdownLinkedRenameTarget<Registry, Type, Scope>>;
+  };
+
+  // Alias 4: Authored `groupFlow` map (selector key → group target).
+  type GroupTargetsByTag = Record<
+    string,
+    AllLinkedRenameTargets<Registry, Scope> & { groupOptions?: MdxGroupOptions }
+  >;
+
+  // Alias 5: Authored scope variant match (scope attribute name → literal value).
+  type ScopeVariantMatch = If<
+    IsNever<Scope>,
+    MdxScopeVariant['when'],
+    ScopeVariantMatchFor<RawPropsOf<Registry[Scope]>>
+  >;
+
+  // Alias 6: Partial rule returned by rule steps. It never declares `extends`,
+  // so spreading steps keeps the literal base key of `extend(...)`.
+  type RuleStep = Omit<MdxTransformRule, 'extends' | 'omit'>;
 
   /**
    * Operation: Typed checkpoint.
@@ -50,30 +124,218 @@ export function getMdxOperations<Registry extends PhantomRegistry>() {
    * Runtime: no-op (returns input unchanged).
    */
   function to<Name extends ComponentName>(
-    target: RegistryRenameTarget<Registry, Name>
+    target: RegistryRenameTarget<Registry, Name, Scope>
   ) {
     return target;
   }
 
   /**
    * Operation: Rule adapter.
-   * Compile-time: type-checks the authored `renameFlow` map (keys + linked `name/props`)
-   *               while keeping object-literal types precise.
+   * Compile-time: type-checks the authored `renameFlow` map (selector keys via
+   *               `SelectorKeysCheck`, linked `name/props`, per candidate for
+   *               `{ when, to }` lists) while keeping object-literal types precise.
    * Runtime: returns `{ renameFlow: renameTargetsByTag }` (the shape the transformer consumes).
    */
-  function flow(renameTargetsByTag: RenameTargetsByTag): MdxTransformRule {
+  function flow<Map extends RenameTargetsByTag>(
+    renameTargetsByTag: Map & SelectorKeysCheck<Map>
+  ): RuleStep {
     return { renameFlow: renameTargetsByTag };
   }
 
+  /**
+   * Operation: Rule adapter (inline variant).
+   * Compile-time: same checks as `flow(...)` (selector keys + linked `name/props`).
+   * Runtime: returns `{ renameText: renameTargetsByTag }`.
+   */
+  function text<Map extends RenameTargetsByTag>(
+    renameTargetsByTag: Map & SelectorKeysCheck<Map>
+  ): RuleStep {
+    return { renameText: renameTargetsByTag };
+  }
+
+  /**
+   * Operation: Rule adapter (wrapper variant).
+   * Compile-time: same checks as `flow(...)`; each target names the wrapper.
+   * Runtime: returns `{ wrapFlow: wrapperTargetsByTag }`.
+   */
+  function wrap<Map extends RenameTargetsByTag>(
+    wrapperTargetsByTag: Map & SelectorKeysCheck<Map>
+  ): RuleStep {
+    return { wrapFlow: wrapperTargetsByTag };
+  }
+
+  /**
+   * Operation: Typed checkpoint (group variant).
+   * Compile-time: same `Name`/props linkage as `to(...)`, plus `groupOptions`.
+   * Runtime: no-op (returns input unchanged).
+   */
+  function toGroup<Name extends ComponentName>(
+    target: RegistryRenameTarget<Registry, Name, Scope> & {
+      groupOptions?: MdxGroupOptions;
+    }
+  ) {
+    return target;
+  }
+
+  /**
+   * Operation: Rule adapter (group variant).
+   * Compile-time: selector keys via `SelectorKeysCheck`, linked `name/props`.
+   * Runtime: returns `{ groupFlow: groupTargetsByTag }`.
+   */
+  function group<Map extends GroupTargetsByTag>(
+    groupTargetsByTag: Map & SelectorKeysCheck<Map>
+  ): RuleStep {
+    return { groupFlow: groupTargetsByTag };
+  }
+
+  /**
+   * Operation: Rule adapter (unwrap).
+   * Compile-time: checks every selector via `SelectorListCheck`.
+   * Runtime: returns `{ unwrapFlow: selectors }`.
+   */
+  function unwrap<const List extends ReadonlyArray<string>>(
+    selectors: SelectorListCheck<List>
+  ): RuleStep {
+    return { unwrapFlow: selectors };
+  }
+
+  /**
+   * Operation: Rule adapter (remove).
+   * Compile-time: checks every selector via `SelectorListCheck`.
+   * Runtime: returns `{ removeFlow: selectors }`.
+   */
+  function remove<const List extends ReadonlyArray<string>>(
+    selectors: SelectorListCheck<List>
+  ): RuleStep {
+    return { removeFlow: selectors };
+  }
+
+  /**
+   * Operation: Rule adapter (scope insertion, start).
+   * Compile-time: type-checks each target's linked `name/props`.
+   * Runtime: returns `{ prependToScope: targets }`.
+   */
+  function prepend(
+    targets: ReadonlyArray<AllLinkedRenameTargets<Registry, Scope>>
+  ): RuleStep {
+    return { prependToScope: targets };
+  }
+
+  /**
+   * Operation: Rule adapter (scope insertion, end).
+   * Compile-time: same checks as `prepend(...)`.
+   * Runtime: returns `{ appendToScope: targets }`.
+   */
+  function append(
+    targets: ReadonlyArray<AllLinkedRenameTargets<Registry, Scope>>
+  ): RuleStep {
+    return { appendToScope: targets };
+  }
+
+  /**
+   * Operation: Typed checkpoint (markdown variant).
+   * Compile-time: same `Name`/props linkage as `to(...)`, plus an inferred
+   *               `match` that the `renameMarkdown` map then checks against the
+   *               keyed node type (e.g. `depth` is only valid under `heading`).
+   *               The return type wraps `Match` in `NoInfer`, so the map slot's
+   *               contextual type cannot feed back into `Match` inference.
+   * Runtime: no-op (returns input unchanged).
+   */
+  function toMarkdown<
+    Name extends ComponentName,
+    Match extends MdxMarkdownMatch = never
+  >(
+    target: RegistryRenameTarget<Registry, Name, Scope> & { match?: Match }
+  ): RegistryRenameTarget<Registry, Name, Scope> & {
+    match?: NoInfer<Match>;
+  } {
+    return target;
+  }
+
+  /**
+   * Operation: Rule adapter (markdown variant).
+   * Compile-time: type-checks the authored `renameMarkdown` map (node type keys,
+   *               linked `name/props`, per-type `match` fields).
+   * Runtime: returns `{ renameMarkdown: renameTargetsByNodeType }`.
+   */
+  function markdown(
+    renameTargetsByNodeType: RenameTargetsByNodeType
+  ): RuleStep {
+    return { renameMarkdown: renameTargetsByNodeType };
+  }
+
+  /**
+   * Operation: Variant adapter.
+   * Compile-time: checks `match` against the scope's props (when `Scope` is known).
+   * Runtime: returns `{ when: match, rule }` (one `MdxScopeVariant`).
+   */
+  function when(
+    match: ScopeVariantMatch,
+    rule: MdxTransformRule
+  ): MdxScopeVariant {
+    // Concrete matches are plain `Record<string, literal>` objects; the cast
+    // only bridges the still-generic `Scope` here.
+    return { when: match as MdxScopeVariant['when'], rule };
+  }
+
+  /**
+   * Operation: Rule adapter (scope variants).
+   * Compile-time: type-checks the authored variant list.
+   * Runtime: returns `{ variants: scopeVariants }`.
+   */
+  function variants(scopeVariants: ReadonlyArray<MdxScopeVariant>): RuleStep {
+    return { variants: scopeVariants };
+  }
+
+  /**
+   * Operation: Rule adapter (cascade).
+   * Compile-time: restricts the mode to `MdxCascadeMode`.
+   * Runtime: returns `{ cascade: mode }`.
+   */
+  function cascade(mode: MdxCascadeMode): RuleStep {
+    return { cascade: mode };
+  }
+
+  /**
+   * Operation: Rule adapter (extends).
+   * Compile-time: `base` must be a registry key; its literal type is kept so
+   *               `defineComponents` can check that it has a rule.
+   * Runtime: returns `{ extends: base, omit }` (flattened by `defineComponents`).
+   */
+  function extend<Base extends ComponentName>(
+    base: Base,
+    omit?: MdxRuleOmissions
+  ): { extends: Base; omit?: MdxRuleOmissions } {
+    return omit ? { extends: base, omit } : { extends: base };
+  }
+
   /**
    * Operation: Finalize a rule (typed checkpoint).
    * Compile-time: preserves the expected `MdxTransformRule` shape at the callsite
-   *               (inference checkpoint).
+   *               (inference checkpoint), keeping the literal `extends` key.
    * Runtime: no-op (returns input unchanged).
    */
-  function transform(rule: MdxTransformRule) {
+  function transform<Rule extends MdxTransformRule>(rule: Rule): Rule {
     return rule;
   }
 
-  return { to, flow, transform };
+  return {
+    to,
+    flow,
+    text,
+    toMarkdown,
+    markdown,
+    wrap,
+    toGroup,
+    group,
+    unwrap,
+    remove,
+    prepend,
+    append,
+    when,
+    variants,
+    cascade,
+    extend,
+    transform
+  };
 }
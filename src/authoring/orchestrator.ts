@@ -1,5 +1,7 @@
 import { PhantomRegistry } from '../mdx/entry-protocol';
+import type { MdxTransformRule } from '../types';
 import { getMdxOperations } from './operations';
+import type { RegistryKeys } from './target-props-linking';
 
 /**
  * Binds an operation to a nested authoring context.
@@ -60,11 +62,91 @@ export type TransformContextFor<Registry extends PhantomRegistry> = ReturnType<
   typeof createTransformContext<Registry>
 >;
 
+/**
+ * Builds the nested rule layers (`transform` → rule steps → `to`) for one
+ * typing context.
+ *
+ * - `Scope = never`: targets are checked against the registry only.
+ * - `Scope = "Callout"`: targets additionally accept `inheritFromScope`,
+ *   checked against Callout's props.
+ *
+ * @template Registry - Component registry the layers are scoped to.
+ * @template Scope - Scope component the rule is authored for (`never` = unknown).
+ * @returns Root layer exposing `transform`.
+ */
+function createRuleLayers<
+  Registry extends PhantomRegistry,
+  Scope extends RegistryKeys<Registry> = never
+>() {
+  const ops = getMdxOperations<Registry, Scope>();
+
+  // Level 3 (inner): `to(...)`
+  // Builds a single rename target.
+  const toContext = { to: ops.to };
+
+  // Level 3 (inner, markdown): `to(...)` with an optional node-type `match`.
+  const markdownToContext = { to: ops.toMarkdown };
+
+  // Level 3 (inner, groups): `to(...)` with optional `groupOptions`.
+  const groupToContext = { to: ops.toGroup };
+
+  // Level 2 (middle): table steps
+  // - `flow(...)`: callback authors a `renameFlow` map (source tag -> rename target)
+  //   using Level 3, then `ops.flow` adapts it into the rule shape the transformer consumes.
+  // - `text(...)`: same as `flow(...)`, for inline JSX elements (`renameText`).
+  // - `markdown(...)`: callback authors a `renameMarkdown` map (mdast node type ->
+  //   rename target) using Level 3, then `ops.markdown` adapts it.
+  // - `wrap(...)`: same as `flow(...)`; the targets name wrapper components.
+  // - `group(...)`: same as `wrap(...)`, for runs of adjacent matches.
+  // - `unwrap(...)` / `remove(...)`: take a selector list directly (no targets).
+  // - `prepend(...)` / `append(...)`: callback authors a list of targets
+  //   inserted at the start / end of the scope.
+  const tableContext = {
+    flow: bindLayer(toContext, ops.flow),
+    text: bindLayer(toContext, ops.text),
+    markdown: bindLayer(markdownToContext, ops.markdown),
+    wrap: bindLayer(toContext, ops.wrap),
+    group: bindLayer(groupToContext, ops.group),
+    unwrap: ops.unwrap,
+    remove: ops.remove,
+    prepend: bindLayer(toContext, ops.prepend),
+    append: bindLayer(toContext, ops.append)
+  };
+
+  // Level 3 (inner, variants): `when(match, rule => ...)`
+  // The callback authors the variant's tables with the same table steps.
+  const variantContext = {
+    when: (
+      match: Parameters<typeof ops.when>[0],
+      defineRule: (rule: typeof tableContext) => MdxTransformRule
+    ) => ops.when(match, defineRule(tableContext))
+  };
+
+  // Level 2 (middle): rule steps
+  // - table steps (above), plus
+  // - `variants(...)`: callback authors a list of `when(...)` variants using
+  //   Level 3, then `ops.variants` adapts it.
+  // - `cascade(...)` / `extend(...)`: take the cascade mode / base rule key
+  //   directly (rule-wide, so not table steps).
+  const ruleContext = {
+    ...tableContext,
+    variants: bindLayer(variantContext, ops.variants),
+    cascade: ops.cascade,
+    extend: ops.extend
+  };
+
+  // Level 1 (root): `transform(...)`
+  // Callback authors a rule using Level 2, then `ops.transform` finalizes it.
+  return {
+    transform: bindLayer(ruleContext, ops.transform)
+  };
+}
+
 /**
  * Creates the transform context passed to the configuration callback.
  *
- * It wires the pure MDX operations (`transform`, `flow`, `to`) into a nested,
- * callback-driven authoring API using `bindLayer`:
+ * It wires the pure MDX operations (`transform`, `flow`, `text`, `markdown`,
+ * `to`) into a nested, callback-driven authoring API using `bindLayer`:
  *
  *   ctx.transform(rule =>
  *     rule.flow(target => ({
@@ -72,9 +154,79 @@ export type TransformContextFor<Registry extends PhantomRegistry> = ReturnType<
  *     }))
  *   )
  *
+ * Rule steps return partial rules, so several steps combine by spreading:
+ *
+ *   ctx.transform(rule => ({
+ *     ...rule.flow(target => ({ br: target.to(blankLineTarget) })),
+ *     ...rule.text(target => ({ br: target.to(inlineBreakTarget) })),
+ *     ...rule.markdown(target => ({ paragraph: target.to(paragraphTarget) }))
+ *   }))
+ *
+ * Structural steps work alongside renames (flow elements, same selectors):
+ *
+ *   ctx.transform(rule => ({
+ *     ...rule.wrap(target => ({ img: target.to(figureTarget) })),
+ *     ...rule.group(target => ({ Step: target.to(stepsTarget) })),
+ *     ...rule.unwrap(["div"]),
+ *     ...rule.remove(["> hr"]),
+ *     ...rule.prepend(target => [target.to(headerTarget)]),
+ *     ...rule.append(target => [target.to(footerTarget)])
+ *   }))
+ *
+ * Scope variants (`variants(...)`): alternative tables selected by the scope
+ * element's literal attributes; the rule's own tables are the default:
+ *
+ *   ctx.scope("ArticleScope").transform(rule => ({
+ *     ...rule.flow(target => ({ p: target.to(articleParagraphTarget) })),
+ *     ...rule.variants(variant => [
+ *       variant.when({ variant: "compact" }, rule =>
+ *         rule.flow(target => ({ p: target.to(compactParagraphTarget) }))
+ *       )
+ *     ])
+ *   }))
+ *
+ * Cascading (`cascade(...)`): the rule's tables also apply inside nested
+ * scopes (`"inherit"` or `"merge"`; default `"isolate"`):
+ *
+ *   ctx.transform(rule => ({
+ *     ...rule.flow(target => ({ p: target.to(articleParagraphTarget) })),
+ *     ...rule.cascade("inherit")
+ *   }))
+ *
+ * Rule inheritance (`extend(...)`): the rule builds on another key's rule,
+ * overriding entries by key and dropping omitted ones (flattened by
+ * `defineComponents`; the base must have a rule in the same map):
+ *
+ *   NoteScope: ctx.transform(rule => ({
+ *     ...rule.extend("BaseScope", { renameFlow: ["br"] }),
+ *     ...rule.flow(target => ({ p: target.to(noteParagraphTarget) }))
+ *   }))
+ *
+ * Scope-aware authoring (`scope(...)`):
+ * - `ctx.scope("Callout")` returns the same layers, with targets additionally
+ *   accepting `inheritFromScope` and `when(...)` matches typed against
+ *   Callout's props:
+ *
+ *   Callout: ctx.scope("Callout").transform(rule =>
+ *     rule.flow(target => ({
+ *       p: target.to({
+ *         component: { name: "CalloutParagraph" },
+ *         inheritFromScope: { tone: "tone" }
+ *       })
+ *     }))
+ *   )
+ *
+ * - The scope name only drives typing; it should match the key the rule is
+ *   attached to.
+ *
  * This enforces strong typing at each nesting level:
- * - `transform(...)` can only use `flow(...)`
- * - `flow(...)` can only use `to(...)`
+ * - `transform(...)` can only use rule steps (table steps, `variants(...)`,
+ *   `cascade(...)` and `extend(...)`)
+ * - `variants(...)` can only use `when(...)`, whose rule callback can only use
+ *   table steps (`flow(...)`, `text(...)`, `markdown(...)`, `wrap(...)`,
+ *   `group(...)`, `unwrap(...)`, `remove(...)`, `prepend(...)`, `append(...)`)
+ * - `flow(...)` / `text(...)` / `markdown(...)` / `wrap(...)` / `group(...)` /
+ *   `prepend(...)` / `append(...)` can only use `to(...)`
  * - `to(...)` constructs a single rename target
  *
  * Editor feedback (intentional):
@@ -83,27 +235,16 @@ export type TransformContextFor<Registry extends PhantomRegistry> = ReturnType<
  * - Invalid prop values error at the offending property.
  *
  * @template Registry - Component registry this context is scoped to.
- * @returns Root context exposing `transform`.
+ * @returns Root context exposing `transform` and `scope`.
  */
 export function createTransformContext<Registry extends PhantomRegistry>() {
-  const ops = getMdxOperations<Registry>();
-
-  // Level 3 (inner): `to(...)`
-  // Builds a single rename target.
-  const toContext = { to: ops.to };
-
-  // Level 2 (middle): `flow(...)`
-  // Callback authors a `renameFlow` map (source tag -> rename target) using Level 3,
-  // then `ops.flow` adapts it into the rule shape the transformer consumes.
-  const flowContext = {
-    flow: bindLayer(toContext, ops.flow)
-  };
-
-  // Level 1 (root): `transform(...)`
-  // Callback authors a rule using Level 2, then `ops.transform` finalizes it.
-  const transformContext = {
-    transform: bindLayer(flowContext, ops.transform)
-  };
+  /**
+   * Typed checkpoint: selects the scope component for `inheritFromScope` typing.
+   * Runtime: returns fresh rule layers (the name itself is not used).
+   */
+  function scope<Scope extends RegistryKeys<Registry>>(_scopeName: Scope) {
+    return createRuleLayers<Registry, Scope>();
+  }
 
-  return transformContext;
+  return { ...createRuleLayers<Registry>(), scope };
 }
@@ -0,0 +1,152 @@
+import type { And, Trim } from 'type-fest';
+
+/**
+ * Compile-time mirror of the selector grammar parsed by the plugin
+ * (`src/selectors.ts`), so malformed selector keys (`renameFlow`,
+ * `renameText`, `wrapFlow`) and selector lists (`unwrapFlow`, `removeFlow`)
+ * are reported where the rule is authored.
+ *
+ * Grammar (same as the runtime parser):
+ *   selector   := [">"] compound (combinator compound)*
+ *   combinator := ">" | whitespace
+ *   compound   := [name | "*"] pseudo*
+ *   name       := identifier ("." identifier)* | identifier "|" identifier
+ *   pseudo     := ":" kind ["(" argument ")"]
+ *
+ * Limitations:
+ * - Names are checked for the characters CSS uses for other selector
+ *   features (`p, div`, `p + q`, `p[x]`), not against the full identifier
+ *   grammar; the runtime parser rejects the rest.
+ * - Whitespace inside parentheses (`:nth-child(2n + 1)`) cannot be told apart
+ *   from a descendant combinator by template-literal matching, so such keys are
+ *   accepted here and only validated when the plugin is created.
+ */
+
+type SimplePseudoKind =
+  | 'first-child'
+  | 'last-child'
+  | 'only-child'
+  | 'first-of-type'
+  | 'last-of-type'
+  | 'only-of-type';
+
+/**
+ * Accepted `an + b` arguments (written without whitespace).
+ */
+type NthArgument =
+  | 'odd'
+  | 'even'
+  | `${number}`
+  | `${number | '' | '-' | '+'}n`
+  | `${number | '' | '-' | '+'}n${'+' | '-'}${number}`;
+
+// Characters that cannot appear in an element name.
+type NameTerminator =
+  | ' '
+  | '>'
+  | ':'
+  | '('
+  | ')'
+  | ','
+  | '+'
+  | '~'
+  | '['
+  | ']'
+  | '='
+  | '#'
+  | '"'
+  | "'";
+
+type IsValidName<Name extends string> =
+  Name extends `${string}${NameTerminator}${string}` ? false : true;
+
+/**
+ * Validates a pseudo-class sequence (`:first-child:not(img)`), left to right.
+ *
+ * `:not(...)` is matched twice: first up to the first `)`, then (for a nested
+ * argument such as `:not(:nth-child(2))`) up to the first `))`.
+ */
+type IsValidPseudos<S extends string> = S extends ''
+  ? true
+  : S extends `:${SimplePseudoKind}${infer Rest}`
+    ? IsValidPseudos<Rest>
+    : S extends `:${'nth-child' | 'nth-of-type'}(${infer Argument})${infer Rest}`
+      ? Argument extends NthArgument
+        ? IsValidPseudos<Rest>
+        : false
+      : S extends `:not(${infer Argument})${infer Rest}`
+        ? IsValidCompound<Argument> extends true
+          ? IsValidPseudos<Rest>
+          : S extends `:not(${infer Nested}))${infer NestedRest}`
+            ? And<IsValidCompound<`${Nested})`>, IsValidPseudos<NestedRest>>
+            : false
+        : false;
+
+/**
+ * Validates one compound selector (`img`, `*`, `p:first-child`, `:only-child`).
+ */
+type IsValidCompound<S extends string> = S extends ''
+  ? false
+  : S extends `${infer Name}:${infer Pseudos}`
+    ? And<IsValidName<Name>, IsValidPseudos<`:${Pseudos}`>>
+    : IsValidName<S>;
+
+/**
+ * Validates a compound chain, splitting on `>` first and on whitespace second.
+ */
+type IsValidChain<S extends string> = S extends `${infer Left}>${infer Right}`
+  ? And<IsValidChain<Trim<Left>>, IsValidChain<Trim<Right>>>
+  : S extends `${infer Left} ${infer Right}`
+    ? And<IsValidChain<Trim<Left>>, IsValidChain<Trim<Right>>>
+    : IsValidCompound<S>;
+
+/**
+ * `true` when `S` is a well-formed selector key.
+ *
+ * Examples:
+ * ```ts
+ * IsValidSelector<'p'>                    // true
+ * IsValidSelector<'> p:first-child'>      // true
+ * IsValidSelector<'li > p'>               // true
+ * IsValidSelector<'img:not(:only-child)'> // true
+ * IsValidSelector<'p:frist-child'>        // false (unknown pseudo-class)
+ * IsValidSelector<'p >'>                  // false (dangling combinator)
+ * IsValidSelector<'p, div'>               // false (selector lists are not supported)
+ * ```
+ */
+export type IsValidSelector<S extends string> = string extends S
+  ? true // widened `string` keys cannot be checked
+  : S extends `${string}(${string} ${string})${string}`
+    ? true // see "Limitation" above
+    : Trim<S> extends `>${infer Rest}`
+      ? IsValidChain<Trim<Rest>>
+      : IsValidChain<Trim<S>>;
+
+/**
+ * Flags the malformed selector keys of an authored rename map.
+ *
+ * Intersected with the map parameter, it replaces each malformed key's value
+ * type with a descriptive string literal, so the error reads:
+ *   Type '{ component: ... }' is not assignable to type '"Invalid selector: p:frist-child"'.
+ *
+ * Well-formed keys add no constraint.
+ */
+export type SelectorKeysCheck<Map> = {
+  [
+    Key in keyof Map as Key extends string
+      ? IsValidSelector<Key> extends true
+        ? never
+        : Key
+      : never
+  ]: `Invalid selector: ${Key & string}`;
+};
+
+/**
+ * Flags the malformed selectors of an authored selector list (`unwrapFlow`,
+ * `removeFlow`), element by element, the same way `SelectorKeysCheck` does.
+ */
+export type SelectorListCheck<List extends ReadonlyArray<string>> = {
+  [Index in keyof List]: IsValidSelector<List[Index]> extends true
+    ? List[Index]
+    : `Invalid selector: ${List[Index]}`;
+};
@@ -1,9 +1,14 @@
-import type { ValueOf } from 'type-fest';
+import type { IsNever, If, ValueOf } from 'type-fest';
 
 import type { PhantomRegistry } from '../mdx/entry-protocol';
 import type { StringKeys } from '../mdx/type-utils';
-import type { MdxRenameTarget } from '../types';
-import { PropsField, RawPropsOf } from './transform-props';
+import type {
+  MdxMarkdownMatchByType,
+  MdxMarkdownNodeType,
+  MdxRenameCandidate,
+  MdxRenameTarget
+} from '../types';
+import { InheritFromScopeFor, PropsField, RawPropsOf } from './transform-props';
 
 /**
  * Registry key type (string-only).
@@ -34,20 +39,52 @@ export type RegistryKeys<Registry> = StringKeys<Registry>;
  * - `component.props` is inferred from `Registry[Name]` and shaped by `PropsField<...>` so required
  *   props stay required and optional props stay optional.
  *
+ * 3) Scope-aware `inheritFromScope` (only when `Scope` is known):
+ * - With a `Scope` registry key, the mapping is typed by `InheritFromScopeFor`
+ *   (target prop keys of `Name` → compatible prop keys of `Scope`).
+ * - Without one (`Scope = never`), the field is not available: the scope's
+ *   props are unknown, so nothing could be checked.
+ *
  * Implementation (“omit + re-add”):
- * - Step 1: omit the canonical `component` field.
+ * - Step 1: omit the canonical `component` and `inheritFromScope` fields.
  * - Step 2: intersect (`&`) the remainder with a stricter registry-aware `component` field.
+ * - Step 3: re-add `inheritFromScope` typed for `Scope` (see `InheritFromScopeField`).
  */
 type RenameTargetsByName<
   Registry extends PhantomRegistry,
-  Name extends RegistryKeys<Registry>
+  Name extends RegistryKeys<Registry>,
+  Scope extends RegistryKeys<Registry> = never
 > =
-  // Step 1: remove the canonical `component` field.
-  Omit<MdxRenameTarget, 'component'> &
+  // Step 1: remove the canonical `component` / `inheritFromScope` fields.
+  Omit<MdxRenameTarget, 'component' | 'inheritFromScope'> &
     // Step 2: attach the registry-aware `component` field.
     {
       component: { name: Name } & PropsField<RawPropsOf<Registry[Name]>>;
-    };
+    } &
+    // Step 3: attach the scope-aware `inheritFromScope` field.
+    InheritFromScopeField<Registry, Name, Scope>;
+
+/**
+ * Intermediate helper:
+ * The `inheritFromScope` field of a rename target for `Name` inside `Scope`.
+ *
+ * - `Scope = never` → `unknown` (intersection identity: no field is added).
+ * - otherwise → `{ inheritFromScope?: InheritFromScopeFor<ScopeProps, TargetProps> }`.
+ */
+type InheritFromScopeField<
+  Registry extends PhantomRegistry,
+  Name extends RegistryKeys<Registry>,
+  Scope extends RegistryKeys<Registry>
+> = If<
+  IsNever<Scope>,
+  unknown,
+  {
+    inheritFromScope?: InheritFromScopeFor<
+      RawPropsOf<Registry[Scope]>,
+      RawPropsOf<Registry[Name]>
+    >;
+  }
+>;
 
 /**
  * Produce a union of “rename target” types for a union of registry component names,
@@ -107,12 +144,13 @@ type RenameTargetsByName<
  */
 type DistributeRenameTargetsByName<
   Registry extends PhantomRegistry,
-  Name extends RegistryKeys<Registry>
+  Name extends RegistryKeys<Registry>,
+  Scope extends RegistryKeys<Registry> = never
 > =
   // Step 1 (“map”): build a per-name mapping.
   ValueOf<{
     // Step 2 (“values”): collapse the mapping to a union of its values.
-    [N in Name]: RenameTargetsByName<Registry, N>;
+    [N in Name]: RenameTargetsByName<Registry, N, Scope>;
   }>;
 
 /**
@@ -142,11 +180,14 @@ type DistributeRenameTargetsByName<
  * Practical authoring-site effect:
  * - `name: "CustomBlankLine"` forces `props` to match CustomBlankLine props.
  * - `name: "CustomParagraph"` forces `props` to match CustomParagraph props.
+ * - With `Scope` (e.g. `"Callout"`), `inheritFromScope` keys are checked
+ *   against the chosen target's props and its values against Callout props.
  */
 export type RegistryRenameTarget<
   Registry extends PhantomRegistry,
-  Name extends RegistryKeys<Registry>
-> = DistributeRenameTargetsByName<Registry, Name>;
+  Name extends RegistryKeys<Registry>,
+  Scope extends RegistryKeys<Registry> = never
+> = DistributeRenameTargetsByName<Registry, Name, Scope>;
 
 /**
  * Convenience alias: rename target for *any* registry component.
@@ -167,5 +208,55 @@ export type RegistryRenameTarget<
  * - As the target type inside `renameFlow` maps, where each entry (`br`, `p`, …) can target
  *   any registry component, but props must match the chosen `component.name`.
  */
-export type AllLinkedRenameTargets<Registry extends PhantomRegistry> =
-  RegistryRenameTarget<Registry, RegistryKeys<Registry>>;
+export type AllLinkedRenameTargets<
+  Registry extends PhantomRegistry,
+  Scope extends RegistryKeys<Registry> = never
+> = RegistryRenameTarget<Registry, RegistryKeys<Registry>, Scope>;
+
+/**
+ * Rename target for a specific markdown node type (`paragraph`, `heading`, …).
+ *
+ * What it represents:
+ * - Any registry-linked rename target (`AllLinkedRenameTargets`), plus
+ * - an optional `match` narrowed to the fields of that node type
+ *   (`MdxMarkdownMatchByType[Type]`).
+ *
+ * Example:
+ *
+ *   type HeadingTarget = MarkdownLinkedRenameTarget<SampleRegistry, "heading">;
+ *   // -> AllLinkedRenameTargets<SampleRegistry> & { match?: { depth?: 1 | 2 | ... } }
+ *
+ * Practical authoring-site effect:
+ * - `heading: target.to({ ..., match: { depth: 2 } })` is accepted.
+ * - `paragraph: target.to({ ..., match: { depth: 2 } })` errors, because
+ *   paragraphs have no narrowing fields.
+ */
+export type MarkdownLinkedRenameTarget<
+  Registry extends PhantomRegistry,
+  Type extends MdxMarkdownNodeType,
+  Scope extends RegistryKeys<Registry> = never
+> = AllLinkedRenameTargets<Registry, Scope> & {
+  match?: MdxMarkdownMatchByType[Type];
+};
+
+/**
+ * One `{ when, to }` candidate of a `renameFlow` / `renameText` candidate list.
+ *
+ * What it represents:
+ * - The canonical `MdxRenameCandidate`, with `to` replaced by any registry-linked
+ *   rename target (`AllLinkedRenameTargets`), so each candidate's
+ *   `component.name` / `component.props` pairing is checked on its own.
+ * - `when` stays untyped by name: source tags (`img`, `a`, …) are not registry
+ *   entries, so their attributes are not known.
+ *
+ * Example:
+ *
+ *   type ImageCandidate = LinkedRenameCandidate<SampleRegistry>;
+ *   // -> { when?: { [attribute: string]: MdxAttributePredicate }; to: AllLinkedRenameTargets<SampleRegistry> }
+ */
+export type LinkedRenameCandidate<
+  Registry extends PhantomRegistry,
+  Scope extends RegistryKeys<Registry> = never
+> = Omit<MdxRenameCandidate, 'to'> & {
+  to: AllLinkedRenameTargets<Registry, Scope>;
+};
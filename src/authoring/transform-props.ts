@@ -8,6 +8,7 @@ import type {
 } from 'type-fest';
 
 import type { PropsOfEntry } from '../mdx/entry-protocol';
+import type { MdxComputedProps, MdxSourceAttributeValue } from '../types';
 
 import { type StringKeys } from '../mdx/type-utils';
 
@@ -281,6 +282,34 @@ type TransformPropsFor<Props extends object> = Pick<
  */
 type StrictEmptyProps = { props?: EmptyObject };
 
+/**
+ * Intermediate helper:
+ * Accepts the authorable props object either literally or as computed props.
+ *
+ * Why this exists:
+ * - `component.props` can be static (`{ title: "Intro" }`) or computed from the
+ *   source at compile time (`source => ({ title: source.text })`).
+ * - Both forms must produce the same projected shape, so the computed form's
+ *   return type is checked against `TransformPropsFor<P>` as well.
+ *
+ * Note:
+ * - Wrong prop types in a computed return are reported on the `props` field.
+ * - TypeScript does not run excess-property checks on a function's returned
+ *   object literal here, so an extra (misspelled) key in the computed form is
+ *   not flagged; the static form still catches it.
+ *
+ * Example:
+ * ```ts
+ * type Props = { title: string };
+ *
+ * props: { title: "Intro" }                 // ✅ static
+ * props: source => ({ title: source.text }) // ✅ computed
+ * props: source => ({ title: source.index }) // ❌ number is not assignable to string
+ * ```
+ */
+type PropsValue<P extends object> =
+  TransformPropsFor<P> | MdxComputedProps<TransformPropsFor<P>>;
+
 /**
  * Intermediate helper:
  * Determines whether the outer `props` field is required when authorable keys
@@ -299,6 +328,7 @@ type StrictEmptyProps = { props?: EmptyObject };
  * 3. Field requirement decision:
  *    - If that union is `never` (meaning “there are no required keys”) → `props` is optional.
  *    - Otherwise (the union contains one or more keys) → `props` is required.
+ * 4. Field value: `PropsValue<P>` (the projection, literally or computed).
  *
  * Note on the mechanic:
  * - `RequiredKeysOf<T>` does not “count” keys. It returns a *union* of required key names.
@@ -312,8 +342,8 @@ type StrictEmptyProps = { props?: EmptyObject };
  */
 type PropsWithKeys<P extends object> =
   RequiredKeysOf<TransformPropsFor<P>> extends never
-    ? { props?: TransformPropsFor<P> }
-    : { props: TransformPropsFor<P> };
+    ? { props?: PropsValue<P> }
+    : { props: PropsValue<P> };
 
 /**
  * Alternative equivalent formulation (not used in the current pipeline).
@@ -332,8 +362,8 @@ type PropsWithKeys<P extends object> =
  */
 export type PropsWithKeysUnused<P extends object> = If<
   HasRequiredKeys<TransformPropsFor<P>>,
-  { props: TransformPropsFor<P> },
-  { props?: TransformPropsFor<P> }
+  { props: PropsValue<P> },
+  { props?: PropsValue<P> }
 >;
 
 /**
@@ -462,3 +492,99 @@ export type ResolvePropsFieldUnused<P extends object> = If<
 export type PropsField<P extends object> = P extends unknown
   ? ResolvePropsField<P>
   : never;
+
+/**
+ * Intermediate helper:
+ * Selects the scope prop keys whose values can be copied into a target prop
+ * typed as `Value`.
+ *
+ * Mechanics:
+ * - Iterates the scope's authorable keys (`TransformablePropKeys<ScopeProps>`).
+ * - Keeps a key when its non-nullable value type is assignable to `Value`
+ *   (an unset scope attribute is never copied, so `undefined` does not count).
+ *
+ * Example:
+ * ```ts
+ * type ScopeProps = { tone?: "info" | "warning"; level: number };
+ *
+ * type ForString = ScopePropKeysAssignableTo<ScopeProps, string>; // "tone"
+ * type ForNumber = ScopePropKeysAssignableTo<ScopeProps, number>; // "level"
+ * ```
+ */
+type ScopePropKeysAssignableTo<ScopeProps, Value> = {
+  [K in TransformablePropKeys<ScopeProps>]-?: K extends keyof ScopeProps
+    ? NonNullable<ScopeProps[K]> extends Value
+      ? K
+      : never
+    : never;
+}[TransformablePropKeys<ScopeProps>];
+
+/**
+ * Intermediate helper:
+ * Builds the `inheritFromScope` mapping for a single target props object type.
+ *
+ * - Keys: the target's authorable prop keys (same policy as `component.props`).
+ * - Values: scope prop names whose type fits the target prop.
+ *
+ * A target prop with no compatible scope prop maps to `never`, so authoring it
+ * is an error at that key.
+ */
+type ResolveInheritFromScope<ScopeProps, TargetProps extends object> = {
+  readonly [
+    K in TransformablePropKeys<TargetProps>
+  ]?: K extends keyof TargetProps
+    ? ScopePropKeysAssignableTo<ScopeProps, TargetProps[K]>
+    : never;
+};
+
+/**
+ * The authorable `inheritFromScope` mapping (target prop → scope prop) for a
+ * scope/target pair.
+ *
+ * - Both sides are read from registry entries via `RawPropsOf`
+ *   (`PropsOfEntry` → object narrowing).
+ * - Distributes over union target props, like `PropsField`.
+ *
+ * Example:
+ * ```ts
+ * type CalloutProps = { tone: "info" | "warning"; title?: string };
+ * type CalloutParagraphProps = { tone?: string; level?: number };
+ *
+ * type Mapping = InheritFromScopeFor<CalloutProps, CalloutParagraphProps>;
+ * // -> { readonly tone?: "tone" | "title"; readonly level?: never }
+ *
+ * inheritFromScope: { tone: "tone" }  // ✅
+ * inheritFromScope: { level: "tone" } // ❌ no scope prop fits `number`
+ * inheritFromScope: { tone: "tonne" } // ❌ not a scope prop
+ * ```
+ */
+export type InheritFromScopeFor<
+  ScopeProps extends object,
+  TargetProps extends object
+> = TargetProps extends unknown
+  ? ResolveInheritFromScope<ScopeProps, TargetProps>
+  : never;
+
+/**
+ * The authorable `when` of a scope variant for a scope props type.
+ *
+ * - Keys: the scope's authorable prop keys (same policy as `component.props`).
+ * - Values: the literal-readable part of each prop type
+ *   (`MdxSourceAttributeValue`); a prop with no such part maps to `never`.
+ *
+ * Example:
+ * ```ts
+ * type ArticleScopeProps = { variant?: "compact" | "full"; level?: number; onOpen?: () => void };
+ *
+ * type When = ScopeVariantMatchFor<ArticleScopeProps>;
+ * // -> { readonly variant?: "compact" | "full"; readonly level?: number; readonly onOpen?: never }
+ *
+ * when: { variant: "compact" } // ✅
+ * when: { variant: "dense" }   // ❌ not a `variant` value
+ * ```
+ */
+export type ScopeVariantMatchFor<ScopeProps extends object> = {
+  readonly [K in TransformablePropKeys<ScopeProps>]?: K extends keyof ScopeProps
+    ? Extract<NonNullable<ScopeProps[K]>, MdxSourceAttributeValue>
+    : never;
+};
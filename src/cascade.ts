@@ -0,0 +1,160 @@
+import type {
+  MdxCascadeMode,
+  MdxMarkdownRenameMap,
+  MdxScopeRuleTables
+} from './types';
+import { selectorSubjectName } from './selectors';
+
+/**
+ * Tables a nested scope receives from the scopes around it (see
+ * `MdxTransformRule.cascade`), with the mode they combine in.
+ */
+export type CascadedTables = {
+  tables: MdxScopeRuleTables;
+  mode: Exclude<MdxCascadeMode, 'isolate'>;
+};
+
+type SelectorTable = Readonly<Record<string, unknown>>;
+
+// Combined tables by inherited table → own table (→ mode), so a pair of
+// authored tables always combines into the same object and its compiled
+// selectors are reused (see `compileTableSelectors`).
+const combinedTables = new WeakMap<
+  object,
+  WeakMap<object, Map<CascadedTables['mode'], object>>
+>();
+
+function memoize<Table extends object>(
+  inherited: Table,
+  own: Table,
+  mode: CascadedTables['mode'],
+  combine: () => Table
+): Table {
+  let byOwn = combinedTables.get(inherited);
+  if (!byOwn) combinedTables.set(inherited, (byOwn = new WeakMap()));
+  let byMode = byOwn.get(own);
+  if (!byMode) byOwn.set(own, (byMode = new Map()));
+
+  const cached = byMode.get(mode) as Table | undefined;
+  if (cached) return cached;
+
+  const combined = combine();
+  byMode.set(mode, combined);
+  return combined;
+}
+
+/**
+ * Combines an inherited selector table with a nested scope's own table.
+ *
+ * - `merge`: every key of both tables (an identical key takes the own entry).
+ *   Own keys are declared later, so they win specificity ties.
+ * - `inherit`: inherited keys whose subject (`section > p` → `p`) the own
+ *   table also addresses are dropped first, so the nested scope's entries
+ *   for a tag replace every inherited one.
+ */
+function combineSelectorTables<Table extends SelectorTable>(
+  inherited: Table | undefined,
+  own: Table | undefined,
+  mode: CascadedTables['mode']
+): Table | undefined {
+  if (!inherited || !own) return own ?? inherited;
+
+  return memoize(inherited, own, mode, () => {
+    if (mode === 'merge') return { ...inherited, ...own };
+
+    const ownSubjects = new Set(Object.keys(own).map(selectorSubjectName));
+    const kept = Object.entries(inherited).filter(([key]) => {
+      const subject = selectorSubjectName(key);
+      return !Object.hasOwn(own, key) && !ownSubjects.has(subject);
+    });
+    return { ...Object.fromEntries(kept), ...own } as Table;
+  });
+}
+
+/**
+ * Combines inherited and own selector lists (`unwrapFlow`, `removeFlow`):
+ * both modes keep every selector of both.
+ */
+function combineSelectorLists(
+  inherited: ReadonlyArray<string> | undefined,
+  own: ReadonlyArray<string> | undefined,
+  mode: CascadedTables['mode']
+): ReadonlyArray<string> | undefined {
+  if (!inherited || !own) return own ?? inherited;
+
+  return memoize(inherited, own, mode, () => [
+    ...new Set([...inherited, ...own])
+  ]);
+}
+
+/**
+ * Combines an inherited `renameMarkdown` table with the own one: the own
+ * entry of a node type replaces the inherited one (both modes).
+ */
+function combineMarkdownTables(
+  inherited: MdxMarkdownRenameMap | undefined,
+  own: MdxMarkdownRenameMap | undefined,
+  mode: CascadedTables['mode']
+): MdxMarkdownRenameMap | undefined {
+  if (!inherited || !own) return own ?? inherited;
+
+  return memoize(inherited, own, mode, () => ({ ...inherited, ...own }));
+}
+
+/**
+ * Resolves the tables of a nested scope instance from its own tables and the
+ * tables cascaded into it.
+ *
+ * - Element tables (`renameFlow`, `renameText`, `renameMarkdown`, `wrapFlow`,
+ *   `unwrapFlow`, `removeFlow`, `groupFlow`) combine per table, as set by
+ *   `cascaded.mode` (see `combineSelectorTables`).
+ * - Insertions (`prependToScope`, `appendToScope`) are never inherited.
+ *
+ * Example (`merge`):
+ *   inherited: { renameFlow: { p: A, 'li > p': B } }
+ *   own:       { renameFlow: { p: C } }
+ *   → { renameFlow: { p: C, 'li > p': B } }
+ * With `inherit`, `'li > p'` is dropped too (the own table addresses `p`).
+ *
+ * @param cascaded - Tables cascaded from the enclosing scopes.
+ * @param own - The nested scope's own resolved tables (see `resolveScopeRule`).
+ * @returns The tables applied inside the nested scope.
+ */
+export function cascadeScopeTables(
+  cascaded: CascadedTables,
+  own: MdxScopeRuleTables
+): MdxScopeRuleTables {
+  const { tables: inherited, mode } = cascaded;
+
+  return {
+    renameFlow: combineSelectorTables(
+      inherited.renameFlow,
+      own.renameFlow,
+      mode
+    ),
+    renameText: combineSelectorTables(
+      inherited.renameText,
+      own.renameText,
+      mode
+    ),
+    renameMarkdown: combineMarkdownTables(
+      inherited.renameMarkdown,
+      own.renameMarkdown,
+      mode
+    ),
+    wrapFlow: combineSelectorTables(inherited.wrapFlow, own.wrapFlow, mode),
+    unwrapFlow: combineSelectorLists(
+      inherited.unwrapFlow,
+      own.unwrapFlow,
+      mode
+    ),
+    removeFlow: combineSelectorLists(
+      inherited.removeFlow,
+      own.removeFlow,
+      mode
+    ),
+    groupFlow: combineSelectorTables(inherited.groupFlow, own.groupFlow, mode),
+    prependToScope: own.prependToScope,
+    appendToScope: own.appendToScope
+  };
+}
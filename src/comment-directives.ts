@@ -0,0 +1,84 @@
+import type { Node, Parent } from 'unist';
+
+import { visit } from 'unist-util-visit';
+
+import { isMdxExpressionNode } from './expression-jsx';
+
+/**
+ * MDX comments that exclude authored content from rewrites (see
+ * `collectIgnoredNodes`).
+ */
+export type CommentDirective =
+  'scoped-mdx-ignore-next' | 'scoped-mdx-disable' | 'scoped-mdx-enable';
+
+const commentDirectivePattern =
+  /^\/\*\s*(scoped-mdx-(?:ignore-next|disable|enable))\s*\*\/$/;
+
+const isParent = (node: Node): node is Parent =>
+  Array.isArray((node as Partial<Parent>).children);
+
+const isBlankText = (node: Node): boolean =>
+  node.type === 'text' && !(node as { value?: string }).value?.trim();
+
+/**
+ * Reads the directive of a comment-only expression
+ * (`{/* scoped-mdx-ignore-next *\/}`), if it is one.
+ */
+export function readCommentDirective(node: Node): CommentDirective | undefined {
+  if (!isMdxExpressionNode(node)) return undefined;
+
+  const match = commentDirectivePattern.exec(node.value.trim());
+  return match?.[1] as CommentDirective | undefined;
+}
+
+/**
+ * Collects the nodes comment directives exclude from rewrites, with the
+ * directive that excludes each. Directives apply among siblings (flow or
+ * inline), and an excluded node is excluded with its subtree:
+ *
+ * - `scoped-mdx-ignore-next`: the next sibling (blank text aside).
+ * - `scoped-mdx-disable` … `scoped-mdx-enable`: every sibling in between, or
+ *   up to the end of the parent without `scoped-mdx-enable`.
+ *
+ * Example:
+ * ```mdx
+ * <Callout>
+ *   {/* scoped-mdx-ignore-next *\/}
+ *   <p>Left as authored</p>
+ *   <p>Renamed</p>
+ * </Callout>
+ * ```
+ *
+ * @param tree - The document tree.
+ * @returns Excluded node → the directive excluding it.
+ */
+export function collectIgnoredNodes(
+  tree: Parent
+): ReadonlyMap<Node, CommentDirective> {
+  const ignored = new Map<Node, CommentDirective>();
+
+  visit(tree, (node: Node) => {
+    if (!isParent(node)) return;
+
+    let disabled = false;
+    let ignoreNext = false;
+    for (const child of node.children) {
+      const directive = readCommentDirective(child);
+      if (directive) {
+        if (directive === 'scoped-mdx-ignore-next') ignoreNext = true;
+        else disabled = directive === 'scoped-mdx-disable';
+        continue;
+      }
+      if (isBlankText(child)) continue;
+
+      if (disabled) {
+        ignored.set(child, 'scoped-mdx-disable');
+      } else if (ignoreNext) {
+        ignored.set(child, 'scoped-mdx-ignore-next');
+      }
+      ignoreNext = false;
+    }
+  });
+
+  return ignored;
+}
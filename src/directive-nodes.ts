@@ -0,0 +1,139 @@
+import type { Node, Parent } from 'unist';
+import type { MdxJsxAttribute, MdxJsxFlowElement } from 'mdast-util-mdx-jsx';
+
+import { visit, SKIP } from 'unist-util-visit';
+
+/**
+ * A `remark-directive` node (`:::note`, `::youtube{id=…}`, `:abbr[…]`), in the
+ * shape `mdast-util-directive` produces.
+ *
+ * - `attributes`: `{id=a}` → `{ id: "a" }`; `#a` → `id`, `.b` → `class`;
+ *   a bare `{flag}` → `{ flag: "" }`.
+ * - `children`: the content of a container (its `[label]` is a first
+ *   paragraph with `data.directiveLabel`), or the label of a leaf / text
+ *   directive.
+ */
+export type DirectiveNode = Parent & {
+  type: 'containerDirective' | 'leafDirective' | 'textDirective';
+  name: string;
+  attributes?: Record<string, string | null | undefined> | null;
+};
+
+const directiveNodeTypes: ReadonlySet<string> = new Set<DirectiveNode['type']>([
+  'containerDirective',
+  'leafDirective',
+  'textDirective'
+]);
+
+/**
+ * Type guard: narrows to a container, leaf or text directive.
+ */
+export const isDirectiveNode = (node: Node): node is DirectiveNode =>
+  directiveNodeTypes.has(node.type);
+
+/**
+ * A container directive's `[label]` paragraph (`:::note[Heads up]`), which
+ * `mdast-util-directive` keeps as the first child with `data.directiveLabel`.
+ */
+export const isDirectiveLabel = (node: Node): boolean =>
+  node.type === 'paragraph' &&
+  (node.data as { directiveLabel?: boolean } | undefined)?.directiveLabel ===
+    true;
+
+const directiveMarkers: Readonly<Record<DirectiveNode['type'], string>> = {
+  containerDirective: ':::',
+  leafDirective: '::',
+  textDirective: ':'
+};
+
+/**
+ * `:::note`, `::youtube`, `:abbr` (for messages).
+ */
+export const describeDirective = (directive: DirectiveNode): string =>
+  `${directiveMarkers[directive.type]}${directive.name}`;
+
+/**
+ * Reads a directive's attributes (unset values are left out).
+ */
+export function readDirectiveAttributes(
+  directive: DirectiveNode
+): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [name, value] of Object.entries(directive.attributes ?? {})) {
+    if (typeof value === 'string') attributes[name] = value;
+  }
+
+  return attributes;
+}
+
+/**
+ * A directive's attributes as literal MDX JSX attributes (`{id=a}` →
+ * `id="a"`), so attribute policies and scope variants read them like
+ * authored JSX attributes.
+ */
+export const toDirectiveJsxAttributes = (
+  directive: DirectiveNode
+): MdxJsxAttribute[] =>
+  Object.entries(readDirectiveAttributes(directive)).map(([name, value]) => ({
+    type: 'mdxJsxAttribute',
+    name,
+    value
+  }));
+
+/**
+ * Replaces container and leaf directives that name a scope with the scope's
+ * MDX JSX flow element, so they are scope roots like an authored
+ * `<Callout>` (and render as that component).
+ *
+ * - The element takes the directive's attributes (see
+ *   `toDirectiveJsxAttributes`), children and position.
+ * - Text directives stay as they are: like inline JSX, they are never scope
+ *   roots.
+ *
+ * Example (`resolveScope`: `note` → `Callout`):
+ * ```md
+ * :::note{tone=warning}
+ * Hello
+ * :::
+ * ```
+ * → `<Callout tone="warning">Hello</Callout>`
+ *
+ * @param tree - The document tree.
+ * @param resolveScope - Scope component named by a directive name, if any.
+ * @param onConvert - Called for every converted directive.
+ */
+export function convertDirectiveScopes(
+  tree: Parent,
+  resolveScope: (directiveName: string) => string | undefined,
+  onConvert: (directive: DirectiveNode, element: MdxJsxFlowElement) => void
+): void {
+  visit(
+    tree,
+    (node: Node, index: number | undefined, parent: Parent | undefined) => {
+      if (
+        !isDirectiveNode(node) ||
+        node.type === 'textDirective' ||
+        !parent ||
+        index === undefined
+      ) {
+        return;
+      }
+
+      const scopeName = resolveScope(node.name);
+      if (scopeName === undefined) return;
+
+      const element: MdxJsxFlowElement = {
+        type: 'mdxJsxFlowElement',
+        name: scopeName,
+        attributes: toDirectiveJsxAttributes(node),
+        children: node.children as MdxJsxFlowElement['children'],
+        position: node.position
+      };
+      parent.children[index] = element;
+      onConvert(node, element);
+
+      // Directive scopes nested in the content are converted from there.
+      return [SKIP, index];
+    }
+  );
+}
@@ -0,0 +1,336 @@
+import type { Node, Parent, Position } from 'unist';
+import type { Expression, Program } from 'estree';
+import type {
+  JSXAttribute,
+  JSXElement,
+  JSXIdentifier,
+  JSXMemberExpression,
+  JSXNamespacedName,
+  JSXSpreadAttribute,
+  JSXText
+} from 'estree-jsx';
+import type {
+  MdxJsxAttribute,
+  MdxJsxAttributeValueExpression,
+  MdxJsxExpressionAttribute,
+  MdxJsxFlowElement,
+  MdxJsxTextElement
+} from 'mdast-util-mdx-jsx';
+
+type SourceAttribute = MdxJsxAttribute | MdxJsxExpressionAttribute;
+
+type ElementType = 'mdxJsxFlowElement' | 'mdxJsxTextElement';
+
+/**
+ * An MDX expression (`{…}`) with the program MDX parsed from it.
+ */
+export type MdxExpressionNode = Node & {
+  type: 'mdxFlowExpression' | 'mdxTextExpression';
+  value: string;
+  data?: { estree?: Program | null };
+};
+
+/**
+ * Mirror of the JSX inside one expression (see `mirrorExpressionJsx`).
+ *
+ * - `root`: a stand-in for the expression; its children are the outermost
+ *   JSX elements, in source order.
+ * - `elements`: mirrored element → the estree `JSXElement` it stands for.
+ */
+export type ExpressionJsxMirror = {
+  root: Parent;
+  elements: ReadonlyMap<Node, JSXElement>;
+};
+
+/**
+ * Type guard: narrows to an MDX flow or text expression.
+ */
+export const isMdxExpressionNode = (node: Node): node is MdxExpressionNode =>
+  node.type === 'mdxFlowExpression' || node.type === 'mdxTextExpression';
+
+const isEstreeNode = (value: unknown): value is { type: string } =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as { type?: unknown }).type === 'string';
+
+// Location fields hold plain objects, not child nodes.
+const skippedKeys: ReadonlySet<string> = new Set(['loc', 'range']);
+
+/**
+ * `<a>`, `<ui.Card>`, `<svg:rect>` → `a`, `ui.Card`, `svg:rect`.
+ */
+function toNameString(
+  name: JSXIdentifier | JSXMemberExpression | JSXNamespacedName
+): string {
+  switch (name.type) {
+    case 'JSXIdentifier':
+      return name.name;
+    case 'JSXNamespacedName':
+      return `${name.namespace.name}:${name.name.name}`;
+    case 'JSXMemberExpression':
+      return `${toNameString(name.object)}.${name.property.name}`;
+  }
+}
+
+/**
+ * Inverse of `toNameString` (`ui.Card` → member expression).
+ */
+function toJsxName(
+  name: string
+): JSXIdentifier | JSXMemberExpression | JSXNamespacedName {
+  const [namespace, local] = name.split(':');
+  if (namespace !== undefined && local !== undefined) {
+    return {
+      type: 'JSXNamespacedName',
+      namespace: { type: 'JSXIdentifier', name: namespace },
+      name: { type: 'JSXIdentifier', name: local }
+    };
+  }
+
+  const [first = '', ...properties] = name.split('.');
+  return properties.reduce<JSXIdentifier | JSXMemberExpression>(
+    (object, property) => ({
+      type: 'JSXMemberExpression',
+      object,
+      property: { type: 'JSXIdentifier', name: property }
+    }),
+    { type: 'JSXIdentifier', name: first }
+  );
+}
+
+const toProgram = (expression: Expression): Program => ({
+  type: 'Program',
+  sourceType: 'module',
+  body: [{ type: 'ExpressionStatement', expression }]
+});
+
+/**
+ * The expression of a single-statement program (as built by `toProgram` or by
+ * MDX for attribute values), if that is its shape.
+ */
+function readProgramExpression(
+  program: Program | null | undefined
+): Expression | undefined {
+  const [statement] = program?.body ?? [];
+  return statement?.type === 'ExpressionStatement'
+    ? statement.expression
+    : undefined;
+}
+
+/**
+ * Converts an estree JSX attribute into its MDX JSX form, the shape the
+ * attribute helpers work on:
+ *
+ * - `hidden` → `value: null`, `id="a"` → `value: "a"`
+ * - `level={2}` → a value expression backed by `data.estree`
+ * - `{...props}` → an expression attribute (`{ ...props }` object program)
+ */
+function fromEstreeAttribute(
+  attribute: JSXAttribute | JSXSpreadAttribute
+): SourceAttribute {
+  if (attribute.type === 'JSXSpreadAttribute') {
+    return {
+      type: 'mdxJsxExpressionAttribute',
+      value: '',
+      data: {
+        estree: toProgram({
+          type: 'ObjectExpression',
+          properties: [{ type: 'SpreadElement', argument: attribute.argument }]
+        })
+      }
+    };
+  }
+
+  const name = toNameString(attribute.name);
+  const value = attribute.value;
+  if (value === null || value === undefined) {
+    return { type: 'mdxJsxAttribute', name, value: null };
+  }
+  if (value.type === 'Literal' && typeof value.value === 'string') {
+    return { type: 'mdxJsxAttribute', name, value: value.value };
+  }
+
+  const expression =
+    value.type === 'JSXExpressionContainer' ? value.expression : value;
+  const attributeValue: MdxJsxAttributeValueExpression = {
+    type: 'mdxJsxAttributeValueExpression',
+    value: '',
+    data: { estree: toProgram(expression as Expression) }
+  };
+  return { type: 'mdxJsxAttribute', name, value: attributeValue };
+}
+
+/**
+ * Inverse of `fromEstreeAttribute`, also used for the attributes a rename
+ * emits (see `buildAttributes`).
+ *
+ * @throws When an expression value has no `data.estree` to move into JSX.
+ */
+function toEstreeAttribute(
+  attribute: SourceAttribute
+): JSXAttribute | JSXSpreadAttribute {
+  if (attribute.type === 'mdxJsxExpressionAttribute') {
+    const object = readProgramExpression(attribute.data?.estree);
+    const [spread] =
+      object?.type === 'ObjectExpression' ? object.properties : [];
+    if (spread?.type !== 'SpreadElement') {
+      throw new Error(
+        `Cannot move attribute {${attribute.value}} into an expression: it is not a spread`
+      );
+    }
+    return { type: 'JSXSpreadAttribute', argument: spread.argument };
+  }
+
+  const name = toJsxName(attribute.name);
+  const jsxName = name.type === 'JSXMemberExpression' ? name.property : name;
+
+  if (attribute.value === null || attribute.value === undefined) {
+    return { type: 'JSXAttribute', name: jsxName, value: null };
+  }
+  if (typeof attribute.value === 'string') {
+    return {
+      type: 'JSXAttribute',
+      name: jsxName,
+      value: { type: 'Literal', value: attribute.value }
+    };
+  }
+
+  const expression = readProgramExpression(attribute.value.data?.estree);
+  if (!expression) {
+    throw new Error(
+      `Cannot move attribute "${attribute.name}" into an expression: its value has no estree`
+    );
+  }
+  return {
+    type: 'JSXAttribute',
+    name: jsxName,
+    value: { type: 'JSXExpressionContainer', expression }
+  };
+}
+
+/**
+ * Source position of an estree node (estree columns are 0-based).
+ */
+function toPosition(node: JSXElement): Position | undefined {
+  if (!node.loc) return undefined;
+
+  const [startOffset, endOffset] = node.range ?? [];
+  return {
+    start: {
+      line: node.loc.start.line,
+      column: node.loc.start.column + 1,
+      offset: startOffset
+    },
+    end: {
+      line: node.loc.end.line,
+      column: node.loc.end.column + 1,
+      offset: endOffset
+    }
+  };
+}
+
+/**
+ * Mirrors the JSX elements of an expression's program as MDX JSX elements, so
+ * selectors, rename targets and attribute policies apply to them unchanged.
+ *
+ * - Mirrored elements have their source name, attributes (see
+ *   `fromEstreeAttribute`) and position. They are flow elements in an
+ *   `mdxFlowExpression`, except below an element with text children
+ *   (`<p>Hi <b>x</b></p>`), and text elements in an `mdxTextExpression`.
+ * - An element's children are the JSX elements nested in it, at any depth of
+ *   JavaScript (`<ul>{items.map(i => <li />)}</ul>` → `ul > li`), and its
+ *   JSX text (as `text` nodes).
+ * - Fragments are transparent.
+ *
+ * The program itself is not changed (see `renameExpressionJsxElement`).
+ *
+ * @returns The mirror, or `undefined` when the expression has no program.
+ */
+export function mirrorExpressionJsx(
+  expression: MdxExpressionNode
+): ExpressionJsxMirror | undefined {
+  const program = expression.data?.estree;
+  if (!program) return undefined;
+
+  const root: Parent = { type: expression.type, children: [] };
+  const elements = new Map<Node, JSXElement>();
+
+  const mirror = (value: unknown, parent: Parent, type: ElementType): void => {
+    if (Array.isArray(value)) {
+      for (const item of value) mirror(item, parent, type);
+      return;
+    }
+    if (!isEstreeNode(value)) return;
+
+    if (value.type === 'JSXText') {
+      parent.children.push({
+        type: 'text',
+        value: (value as JSXText).value
+      } as Node);
+      return;
+    }
+
+    if (value.type === 'JSXElement') {
+      const element = value as JSXElement;
+      const mirrored = {
+        type,
+        name: toNameString(element.openingElement.name),
+        attributes: element.openingElement.attributes.map(fromEstreeAttribute),
+        children: [],
+        position: toPosition(element)
+      } as unknown as MdxJsxFlowElement | MdxJsxTextElement;
+      parent.children.push(mirrored);
+      elements.set(mirrored, element);
+
+      // As in MDX, elements next to text are inline.
+      const childType = element.children.some(
+        child => child.type === 'JSXText' && child.value.trim() !== ''
+      )
+        ? 'mdxJsxTextElement'
+        : type;
+      mirror(element.openingElement.attributes, mirrored, childType);
+      mirror(element.children, mirrored, childType);
+      return;
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      if (!skippedKeys.has(key)) mirror(child, parent, type);
+    }
+  };
+  mirror(
+    program,
+    root,
+    expression.type === 'mdxFlowExpression'
+      ? 'mdxJsxFlowElement'
+      : 'mdxJsxTextElement'
+  );
+
+  return { root, elements };
+}
+
+/**
+ * Writes a rename made on a mirrored element back into its estree element:
+ * name, attributes and, for `childrenPolicy: "clear"`, a self-closing tag.
+ *
+ * @param element - The estree element (see `ExpressionJsxMirror.elements`).
+ * @param renamed - The mirrored element after `applyRename`.
+ * @param clearChildren - Whether the rename clears the children.
+ * @throws When an attribute cannot be expressed in JSX (see `toEstreeAttribute`).
+ */
+export function renameExpressionJsxElement(
+  element: JSXElement,
+  renamed: MdxJsxFlowElement | MdxJsxTextElement,
+  clearChildren: boolean
+): void {
+  const name = renamed.name ?? '';
+
+  element.openingElement.attributes = renamed.attributes.map(toEstreeAttribute);
+  element.openingElement.name = toJsxName(name);
+  if (element.closingElement) element.closingElement.name = toJsxName(name);
+
+  if (clearChildren) {
+    element.children = [];
+    element.openingElement.selfClosing = true;
+    element.closingElement = null;
+  }
+}
@@ -0,0 +1,98 @@
+import type { VFile } from 'vfile';
+
+/**
+ * Compiles a glob into a regular expression over `/`-separated paths.
+ *
+ * Supported syntax:
+ * - `*` matches within one path segment, `?` one character of it.
+ * - `**` matches any number of segments (`docs/**`, `**\/*.mdx`); `**\/`
+ *   also matches no segment at all.
+ * - `{a,b}` matches either alternative (`*.{md,mdx}`).
+ *
+ * Every other character matches literally.
+ */
+function compileGlob(glob: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let index = 0; index < glob.length; index += 1) {
+    const char = glob.charAt(index);
+
+    if (char === '*' && glob.charAt(index + 1) === '*') {
+      if (glob.charAt(index + 2) === '/') {
+        source += '(?:.*/)?';
+        index += 2;
+      } else {
+        source += '.*';
+        index += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      braceDepth += 1;
+    } else if (char === '}' && braceDepth > 0) {
+      source += ')';
+      braceDepth -= 1;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  if (braceDepth > 0) {
+    throw new Error(`Invalid file glob "${glob}": unclosed "{"`);
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Path a file is matched by: `file.path` with `/` separators, relative to
+ * `file.cwd` when it lies below it.
+ */
+function toMatchPath(file: VFile): string | undefined {
+  if (file.path === undefined) return undefined;
+
+  const filePath = file.path.replaceAll('\\', '/');
+  const cwd = `${file.cwd.replaceAll('\\', '/').replace(/\/$/, '')}/`;
+
+  return filePath.startsWith(cwd) ? filePath.slice(cwd.length) : filePath;
+}
+
+/**
+ * Creates the `includeFiles` / `excludeFiles` predicate of the plugin.
+ *
+ * - A file is processed when it matches an include glob (or none are given)
+ *   and matches no exclude glob.
+ * - Files without a path are processed only when no include globs are given.
+ *
+ * Example:
+ * ```ts
+ * const isIncluded = createFileFilter(['content/**\/*.mdx'], ['**\/drafts/**']);
+ * isIncluded(new VFile({ path: 'content/blog/intro.mdx' })); // -> true
+ * isIncluded(new VFile({ path: 'content/drafts/next.mdx' })); // -> false
+ * ```
+ *
+ * @throws When a glob is malformed (unclosed `{`).
+ */
+export function createFileFilter(
+  includeFiles: ReadonlyArray<string> | undefined,
+  excludeFiles: ReadonlyArray<string> = []
+): (file: VFile) => boolean {
+  const includes = includeFiles?.map(compileGlob);
+  const excludes = excludeFiles.map(compileGlob);
+
+  return file => {
+    const matchPath = toMatchPath(file);
+    if (matchPath === undefined) return includes === undefined;
+
+    return (
+      (!includes || includes.some(glob => glob.test(matchPath))) &&
+      !excludes.some(glob => glob.test(matchPath))
+    );
+  };
+}
@@ -0,0 +1,77 @@
+import type { Literal, Parent } from 'unist';
+
+import { parse } from 'yaml';
+
+import type { ScopedMdxFrontmatter } from './types';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Reads the `scopedMdx` settings of a file's parsed frontmatter.
+ *
+ * - No frontmatter, or no `scopedMdx` key → `{}`.
+ * - Unknown keys under `scopedMdx` are ignored.
+ *
+ * Example:
+ * ```ts
+ * readScopedMdxFrontmatter({
+ *   title: 'Intro',
+ *   scopedMdx: { scope: 'ArticleScope', disable: ['AlertParagraph'] }
+ * });
+ * // -> { scope: 'ArticleScope', disable: ['AlertParagraph'] }
+ * ```
+ *
+ * @param frontmatter - The parsed frontmatter (any value).
+ * @returns The validated settings.
+ * @throws When `scopedMdx` or one of its settings has the wrong type.
+ */
+export function readScopedMdxFrontmatter(
+  frontmatter: unknown
+): ScopedMdxFrontmatter {
+  if (!isRecord(frontmatter) || frontmatter.scopedMdx === undefined) {
+    return {};
+  }
+
+  const settings = frontmatter.scopedMdx;
+  if (!isRecord(settings)) {
+    throw new Error('Frontmatter `scopedMdx` must be an object');
+  }
+
+  const { scope, disable, only } = settings;
+  if (scope !== undefined && typeof scope !== 'string') {
+    throw new Error('Frontmatter `scopedMdx.scope` must be a string');
+  }
+  for (const [key, names] of Object.entries({ disable, only })) {
+    if (names !== undefined && !isStringArray(names)) {
+      throw new Error(
+        `Frontmatter \`scopedMdx.${key}\` must be a list of component names`
+      );
+    }
+  }
+
+  return {
+    ...(scope !== undefined && { scope }),
+    ...(disable !== undefined && { disable: disable as string[] }),
+    ...(only !== undefined && { only: only as string[] })
+  };
+}
+
+/**
+ * Parses the document's YAML frontmatter node (added by `remark-frontmatter`),
+ * for setups that parse frontmatter into the tree but do not run
+ * `vfile-matter`.
+ *
+ * @param tree - The document tree.
+ * @returns The parsed frontmatter, or `undefined` without a `yaml` node.
+ * @throws When the YAML does not parse.
+ */
+export function readYamlFrontmatter(tree: Parent): unknown {
+  const node = tree.children.find(child => child.type === 'yaml') as
+    Literal | undefined;
+
+  return node && typeof node.value === 'string' ? parse(node.value) : undefined;
+}
@@ -1,9 +1,30 @@
 export type { LoaderResolverInput } from './mdx/loadable/contracts';
 
 export { remarkScopedMdx } from './plugin';
+export type {
+  MdxSandboxOptions,
+  ScopedMdxFileData,
+  ScopedMdxFrontmatter,
+  ScopedMdxPlannedRewrite,
+  ScopedMdxPluginOptions
+} from './types';
+export { SCOPED_MDX_MESSAGE_SOURCE, scopedMdxRuleIds } from './messages';
+export type { ScopedMdxRuleId } from './messages';
+export { validateRegistry } from './validate-registry';
+export type {
+  MdxRegistryProblem,
+  MdxRegistryProblemCode,
+  ValidateRegistryOptions
+} from './validate-registry';
 export {
   deriveMdxTransformRegistry,
-  expandHydratedComponentNames
+  deriveOpaqueComponentNames,
+  expandHydratedComponentNames,
+  resolveHydratedComponentNames
+} from './registry-adapter';
+export type {
+  HydratedComponentDiagnostics,
+  HydratedComponentResolution
 } from './registry-adapter';
 
 export * from './authoring';
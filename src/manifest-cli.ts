@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+import { writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+
+import type {
+  ScopedMdxPluginOptions,
+  ScopedMdxTransformRegistry
+} from './types';
+import {
+  type TransformAwareRegistry,
+  deriveMdxTransformRegistry,
+  deriveOpaqueComponentNames
+} from './registry-adapter';
+import { buildComponentManifest } from './manifest';
+
+const usage = `Usage: remark-scoped-mdx-manifest <dir> [options]
+
+Options:
+  --registry <module[#export]>    Scoped transform registry (default export: "default")
+  --components <module[#export]>  Component definitions; their keys filter the
+                                  manifest, and the registry and opaque
+                                  components are derived from them when
+                                  --registry is omitted
+  --options <module[#export]>     Plugin options for remarkScopedMdx
+  --ext <.ext>                    File extension to include (repeatable, default .mdx)
+  --out <file>                    Output file (default: stdout)
+
+Modules are loaded with import(), so TypeScript modules need a loader (e.g. tsx).`;
+
+/**
+ * Loads one export of a module given as `path/to/module.js#exportName`.
+ */
+async function loadExport(specifier: string): Promise<unknown> {
+  const [modulePath = '', exportName = 'default'] = specifier.split('#');
+  const moduleUrl = pathToFileURL(path.resolve(modulePath)).href;
+  const loaded = (await import(moduleUrl)) as Record<string, unknown>;
+
+  if (!(exportName in loaded)) {
+    throw new Error(`Module "${modulePath}" has no export "${exportName}"`);
+  }
+
+  return loaded[exportName];
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      registry: { type: 'string' },
+      components: { type: 'string' },
+      options: { type: 'string' },
+      ext: { type: 'string', multiple: true },
+      out: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  const [root] = positionals;
+  if (values.help || !root || (!values.registry && !values.components)) {
+    console.log(usage);
+    if (!values.help) process.exitCode = 1;
+    return;
+  }
+
+  const components = values.components
+    ? ((await loadExport(values.components)) as TransformAwareRegistry)
+    : undefined;
+  const registry = values.registry
+    ? ((await loadExport(values.registry)) as ScopedMdxTransformRegistry)
+    : deriveMdxTransformRegistry(components ?? {});
+  const loadedOptions = values.options
+    ? ((await loadExport(values.options)) as ScopedMdxPluginOptions)
+    : undefined;
+  // A derived registry comes with the components' opaque entries, as it would
+  // in the app's own plugin setup.
+  const pluginOptions =
+    components && !values.registry
+      ? {
+          ...loadedOptions,
+          opaqueComponents: [
+            ...(loadedOptions?.opaqueComponents ?? []),
+            ...deriveOpaqueComponentNames(components)
+          ]
+        }
+      : loadedOptions;
+
+  const manifest = await buildComponentManifest({
+    root,
+    registry,
+    pluginOptions,
+    componentNames: components && Object.keys(components),
+    extensions: values.ext
+  });
+  const json = `${JSON.stringify(manifest, null, 2)}\n`;
+
+  if (values.out) {
+    await writeFile(values.out, json);
+  } else {
+    process.stdout.write(json);
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
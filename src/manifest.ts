@@ -0,0 +1,145 @@
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { PluggableList } from 'unified';
+
+import type {
+  ScopedMdxPluginOptions,
+  ScopedMdxTransformRegistry
+} from './types';
+import { remarkScopedMdx } from './plugin';
+
+/**
+ * Project-wide component manifest (see `buildComponentManifest`).
+ */
+export type ComponentManifest = {
+  /**
+   * File key (relative path or route) → sorted component names the compiled
+   * file renders, including names introduced by scoped rewrites.
+   */
+  files: Record<string, string[]>;
+};
+
+export type ComponentManifestOptions = {
+  /**
+   * Directory scanned recursively for MDX files.
+   */
+  root: string;
+  /**
+   * Scoped transform registry passed to `remarkScopedMdx`.
+   */
+  registry: ScopedMdxTransformRegistry;
+  /**
+   * Plugin options passed to `remarkScopedMdx` (e.g. `directiveScopes`,
+   * `readFrontmatter`), so files compile as they do in the bundler.
+   */
+  pluginOptions?: ScopedMdxPluginOptions;
+  /**
+   * Names the manifest may list (typically the component registry's keys).
+   * Names outside it (lowercase tags, unregistered components) are dropped.
+   * When omitted, every used name is listed.
+   */
+  componentNames?: Iterable<string>;
+  /**
+   * File extensions to include (default `['.mdx']`).
+   */
+  extensions?: ReadonlyArray<string>;
+  /**
+   * Remark plugins of the project's MDX setup (e.g. GFM, frontmatter); they
+   * run before `remarkScopedMdx`, as they would in the bundler.
+   */
+  remarkPlugins?: PluggableList;
+  /**
+   * Maps a file's root-relative path (`/`-separated, e.g. `blog/intro.mdx`)
+   * to its manifest key, e.g. a route (default: the path itself).
+   */
+  toKey?: (relativePath: string) => string;
+};
+
+/**
+ * Lists the root-relative paths of matching files, sorted for a stable
+ * manifest. Directories are walked one level at a time (a recursive `readdir`
+ * needs `Dirent.parentPath`, which older Node versions lack).
+ */
+async function listFiles(
+  root: string,
+  extensions: ReadonlyArray<string>
+): Promise<string[]> {
+  const files: string[] = [];
+
+  const walk = async (relativeDir: string): Promise<void> => {
+    const entries = await readdir(path.join(root, relativeDir), {
+      withFileTypes: true
+    });
+    for (const entry of entries) {
+      const relativePath = relativeDir
+        ? `${relativeDir}/${entry.name}`
+        : entry.name;
+      if (entry.isDirectory()) {
+        await walk(relativePath);
+      } else if (
+        entry.isFile() &&
+        extensions.includes(path.extname(entry.name))
+      ) {
+        files.push(relativePath);
+      }
+    }
+  };
+  await walk('');
+
+  return files.sort();
+}
+
+/**
+ * Compiles every MDX file below `root` with `remarkScopedMdx` and collects the
+ * component names each file needs (`file.data.scopedMdx.usedComponents`).
+ *
+ * The result is meant to be written once at build time (see the
+ * `remark-scoped-mdx-manifest` CLI) and read by bundler config or route-level
+ * code splitting, instead of resolving the whole registry on every page.
+ *
+ * Notes:
+ * - Requires `@mdx-js/mdx` (an optional peer dependency), loaded on first use.
+ * - Files are compiled one at a time; a compile error rejects with the
+ *   compiler's message (which names the file and position).
+ *
+ * @param options - Directory, registry, plugin and filtering options.
+ * @returns The manifest, keyed by `toKey(relativePath)`.
+ */
+export async function buildComponentManifest(
+  options: ComponentManifestOptions
+): Promise<ComponentManifest> {
+  const { compile } = await import('@mdx-js/mdx');
+
+  const {
+    root,
+    registry,
+    pluginOptions,
+    extensions = ['.mdx'],
+    remarkPlugins = [],
+    toKey = (relativePath: string) => relativePath
+  } = options;
+  const allowed = options.componentNames && new Set(options.componentNames);
+
+  const files: ComponentManifest['files'] = {};
+
+  for (const relativePath of await listFiles(root, extensions)) {
+    const filePath = path.join(root, relativePath);
+    const compiled = await compile(
+      { path: filePath, value: await readFile(filePath, 'utf8') },
+      {
+        remarkPlugins: [
+          ...remarkPlugins,
+          [remarkScopedMdx, registry, pluginOptions]
+        ]
+      }
+    );
+
+    const usedComponents = compiled.data.scopedMdx?.usedComponents ?? [];
+    files[toKey(relativePath)] = allowed
+      ? usedComponents.filter(name => allowed.has(name))
+      : usedComponents;
+  }
+
+  return { files };
+}
@@ -0,0 +1,251 @@
+import type { Node } from 'unist';
+import type {
+  Blockquote,
+  Code,
+  Heading,
+  Image,
+  List,
+  ListItem,
+  Paragraph,
+  ThematicBreak
+} from 'mdast';
+import type {
+  MdxJsxAttribute,
+  MdxJsxFlowElement,
+  MdxJsxTextElement
+} from 'mdast-util-mdx-jsx';
+
+import type {
+  MdxMarkdownNodeType,
+  MdxMarkdownRenameMap,
+  MdxMarkdownRenameTarget
+} from './types';
+import type { DirectiveNode } from './directive-nodes';
+import { toMdxAttribute } from './attributes';
+import { readMarkdownAttributes } from './rename-source';
+
+/**
+ * mdast nodes that `renameMarkdown` can rewrite (one per `MdxMarkdownNodeType`).
+ */
+export type MarkdownRenameSource =
+  | Paragraph
+  | Heading
+  | List
+  | Blockquote
+  | Code
+  | Image
+  | ThematicBreak
+  | DirectiveNode;
+
+const markdownNodeTypes: ReadonlySet<string> = new Set<MdxMarkdownNodeType>([
+  'paragraph',
+  'heading',
+  'list',
+  'blockquote',
+  'code',
+  'image',
+  'thematicBreak',
+  'containerDirective',
+  'leafDirective',
+  'textDirective'
+]);
+
+/**
+ * Type guard: narrows to one of the mdast node types `renameMarkdown` supports.
+ */
+export const isMarkdownRenameSource = (
+  node: Node
+): node is MarkdownRenameSource => markdownNodeTypes.has(node.type);
+
+/**
+ * Checks a target's optional `match` against the fields of an mdast node.
+ *
+ * - No `match` → every node of the keyed type is accepted.
+ * - Each declared field must equal the node field (strict equality).
+ * - Fields set to `undefined` are treated as “not declared”.
+ */
+function matchesMarkdownNode(
+  node: MarkdownRenameSource,
+  target: MdxMarkdownRenameTarget
+): boolean {
+  if (!target.match) return true;
+
+  const nodeFields = node as unknown as Record<string, unknown>;
+
+  return Object.entries(target.match).every(
+    ([field, expected]) =>
+      expected === undefined || nodeFields[field] === expected
+  );
+}
+
+/**
+ * Resolves the rename target for a markdown node from a `renameMarkdown` map.
+ *
+ * Resolution:
+ * 1) Look up the entry keyed by `node.type`.
+ * 2) Normalize a single target into a one-element candidate list.
+ * 3) Return the first candidate whose `match` accepts the node.
+ *
+ * @param node - Markdown node found inside a scope subtree.
+ * @param renameMarkdown - The scope's markdown rename map.
+ * @returns The winning target, or `undefined` when no candidate matches.
+ */
+export function selectMarkdownRenameTarget(
+  node: MarkdownRenameSource,
+  renameMarkdown: MdxMarkdownRenameMap
+): MdxMarkdownRenameTarget | undefined {
+  const entry: MdxMarkdownRenameMap[MdxMarkdownNodeType] =
+    renameMarkdown[node.type];
+  if (!entry) return undefined;
+
+  const candidates: ReadonlyArray<MdxMarkdownRenameTarget> = Array.isArray(
+    entry
+  )
+    ? entry
+    : [entry as MdxMarkdownRenameTarget];
+
+  return candidates.find(candidate => matchesMarkdownNode(node, candidate));
+}
+
+/**
+ * The fields of a markdown node as literal MDX JSX attributes (see
+ * `readMarkdownAttributes`): strings as plain values (`src="/a.png"`),
+ * numbers and booleans as literal expressions (`depth={2}`, `ordered`).
+ */
+const toMarkdownJsxAttributes = (
+  node: MarkdownRenameSource
+): MdxJsxAttribute[] =>
+  Object.entries(readMarkdownAttributes(node)).map(([name, value]) =>
+    typeof value === 'string'
+      ? { type: 'mdxJsxAttribute', name, value }
+      : toMdxAttribute(name, value)
+  );
+
+/**
+ * Whether a list renders loose (its items keep their `<p>`s), as
+ * `mdast-util-to-hast` decides it: the list or any item is `spread`, or an
+ * item without `spread` has several children.
+ */
+const isLooseList = (list: List): boolean =>
+  list.spread === true ||
+  list.children.some(item => item.spread ?? item.children.length > 1);
+
+/**
+ * A loose list's item, moved under a renamed list element.
+ *
+ * `mdast-util-to-hast` renders a `listItem` loose only when its parent is a
+ * `list`, so under the renamed element its paragraphs would be unwrapped
+ * (`<li>a b</li>`). An item node of an unknown type renders as the `hName`
+ * element around its children instead (`<li><p>a</p><p>b</p></li>`), and is
+ * still mapped to `components.li`. Task list checkboxes are not rendered.
+ */
+const toLooseListItem = (item: ListItem): Node =>
+  ({
+    type: 'scopedMdxListItem',
+    data: { hName: 'li' },
+    children: item.children,
+    position: item.position
+  }) as Node;
+
+/**
+ * Converts a markdown node into an unnamed MDX JSX element shell.
+ *
+ * The shell carries over position, content and the node's fields as source
+ * attributes (`![Logo](/a.png)` → `src="/a.png" alt="Logo"`, `## A` →
+ * `depth={2}`; see `readMarkdownAttributes`); naming and attribute emission
+ * are left to the rename step, so markdown and JSX sources share one code path.
+ *
+ * Children mapping:
+ * - `paragraph` / `heading`: phrasing children move onto the element
+ *   (`## Intro` → `<SectionTitle>Intro</SectionTitle>`).
+ * - `list` / `blockquote`: block children (list items, paragraphs) move onto
+ *   the element. Items of a loose list keep their paragraphs (see
+ *   `toLooseListItem`).
+ * - `code`: the raw source becomes a single text child, so the component
+ *   receives the code string as `children`.
+ * - `thematicBreak`: no children (marker-style element).
+ * - `image`: no children. Images are phrasing content, so the result is an
+ *   inline `mdxJsxTextElement` that stays inside its paragraph.
+ * - Directives: their children (a container's content, a leaf or text
+ *   directive's label) move onto the element, and their attributes are the
+ *   source attributes (`::youtube{id=abc}` → `id="abc"`). Text directives
+ *   become inline `mdxJsxTextElement`s.
+ *
+ * Note:
+ * - Phrasing children are not valid `MdxJsxFlowElement` children at the type
+ *   level, but the MDX compiler (mdast → hast) accepts them. The casts below
+ *   record that intent.
+ *
+ * @param node - Markdown node to convert.
+ * @returns A flow (or, for images, text) JSX element with `name: null`.
+ */
+export function toMdxJsxElement(
+  node: MarkdownRenameSource
+): MdxJsxFlowElement | MdxJsxTextElement {
+  const position = node.position;
+  const attributes = toMarkdownJsxAttributes(node);
+
+  switch (node.type) {
+    case 'image':
+      return {
+        type: 'mdxJsxTextElement',
+        name: null,
+        attributes,
+        children: [],
+        position
+      };
+    case 'code':
+      return {
+        type: 'mdxJsxFlowElement',
+        name: null,
+        attributes,
+        children: [
+          { type: 'text', value: node.value }
+        ] as unknown as MdxJsxFlowElement['children'],
+        position
+      };
+    case 'textDirective':
+      return {
+        type: 'mdxJsxTextElement',
+        name: null,
+        attributes,
+        children: node.children as MdxJsxTextElement['children'],
+        position
+      };
+    case 'containerDirective':
+    case 'leafDirective':
+      return {
+        type: 'mdxJsxFlowElement',
+        name: null,
+        attributes,
+        children: node.children as MdxJsxFlowElement['children'],
+        position
+      };
+    case 'list':
+      return {
+        type: 'mdxJsxFlowElement',
+        name: null,
+        attributes,
+        children: (isLooseList(node)
+          ? node.children.map(toLooseListItem)
+          : node.children) as MdxJsxFlowElement['children'],
+        position
+      };
+    case 'thematicBreak':
+      return {
+        type: 'mdxJsxFlowElement',
+        name: null,
+        attributes,
+        children: [],
+        position
+      };
+    default:
+      return {
+        type: 'mdxJsxFlowElement',
+        name: null,
+        attributes,
+        children: node.children as MdxJsxFlowElement['children'],
+        position
+      };
+  }
+}
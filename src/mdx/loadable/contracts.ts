@@ -15,11 +15,14 @@ export type DefaultRuntimeConfig = {};
 
 /**
  * Build-time Metadata Mixin.
- * Defines the structural slot for attaching MDX transform rules to an entry.
- * This property is consumed by build tools, not the React runtime.
+ * Defines the structural slots for attaching MDX transform metadata to an entry:
+ * - `mdxTransform`: the scope rule of the component.
+ * - `opaque`: no scope rewrites the component's content (see `deriveOpaqueComponentNames`).
+ * These properties are consumed by build tools, not the React runtime.
  */
 export type TransformMetadata = {
   mdxTransform?: MdxTransformRule;
+  opaque?: boolean;
 };
 
 /**
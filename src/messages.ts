@@ -0,0 +1,145 @@
+import type { Node } from 'unist';
+import type { VFile } from 'vfile';
+import type { ValueOf } from 'type-fest';
+
+import type { MdxRegistryProblem } from './validate-registry';
+
+/**
+ * `message.source` of every message the plugin reports.
+ */
+export const SCOPED_MDX_MESSAGE_SOURCE = 'remark-scoped-mdx';
+
+/**
+ * Stable `message.ruleId`s of plugin messages, one per kind of event.
+ *
+ * - Rewrites (`rename`, `rename-markdown`, `wrap`, `unwrap`, `remove`,
+ *   `group`, `insert`), skipped nested scopes (`nested-scope`), skipped
+ *   opaque components (`opaque`) and content excluded by comment directives
+ *   (`ignored`) are informational (`file.info`).
+ * - `serialize` is fatal (`file.fail`): a target element could not be built,
+ *   because a prop could not be serialized or computed props threw.
+ * - Content checks: `unknown-component` (fatal, `strict`) and `not-allowed`
+ *   (a warning, `allowedInScope`).
+ * - `sandbox`: content removed from a sandboxed scope (a warning; fatal for
+ *   rejected expressions).
+ * - `frontmatter`: invalid `scopedMdx` frontmatter (fatal).
+ * - `registry`: a registry problem found when the plugin was created (a
+ *   warning; see `onInvalid`).
+ */
+export const scopedMdxRuleIds = {
+  rename: 'scoped-mdx:rename',
+  renameMarkdown: 'scoped-mdx:rename-markdown',
+  wrap: 'scoped-mdx:wrap',
+  unwrap: 'scoped-mdx:unwrap',
+  remove: 'scoped-mdx:remove',
+  group: 'scoped-mdx:group',
+  insert: 'scoped-mdx:insert',
+  nestedScope: 'scoped-mdx:nested-scope',
+  opaque: 'scoped-mdx:opaque',
+  ignored: 'scoped-mdx:ignored',
+  serialize: 'scoped-mdx:serialize',
+  unknownComponent: 'scoped-mdx:unknown-component',
+  notAllowed: 'scoped-mdx:not-allowed',
+  sandbox: 'scoped-mdx:sandbox',
+  frontmatter: 'scoped-mdx:frontmatter',
+  registry: 'scoped-mdx:registry'
+} as const;
+
+export type ScopedMdxRuleId = ValueOf<typeof scopedMdxRuleIds>;
+
+/**
+ * Reports a rewrite (or a skipped boundary) as an info message placed at
+ * the source node, e.g. `Renamed <p> to <CalloutParagraph> (scope "Callout")`.
+ */
+export function reportRewrite(
+  file: VFile,
+  node: Node,
+  ruleId: ScopedMdxRuleId,
+  scopeName: string,
+  description: string
+): void {
+  file.info(`${description} (scope "${scopeName}")`, {
+    place: node.position,
+    ruleId,
+    source: SCOPED_MDX_MESSAGE_SOURCE
+  });
+}
+
+/**
+ * Fails the file with the error raised while building a target element for
+ * `node`, adding the node's position and scope (the original error is kept
+ * as `cause`).
+ *
+ * @throws Always (`file.fail` throws the fatal message).
+ */
+export function failRewrite(
+  file: VFile,
+  node: Node,
+  scopeName: string,
+  error: unknown
+): never {
+  const message = error instanceof Error ? error.message : String(error);
+
+  return file.fail(`${message} (scope "${scopeName}")`, {
+    place: node.position,
+    ruleId: scopedMdxRuleIds.serialize,
+    source: SCOPED_MDX_MESSAGE_SOURCE,
+    cause: error instanceof Error ? error : undefined
+  });
+}
+
+/**
+ * Reports content that breaks a scope's contract (see `strict`,
+ * `allowedInScope` and `sandbox`) at the offending node: a warning, or a fatal message
+ * (thrown by `file.fail`) when `fatal` is set.
+ */
+export function reportViolation(
+  file: VFile,
+  node: Node,
+  ruleId: ScopedMdxRuleId,
+  scopeName: string,
+  description: string,
+  fatal = false
+): void {
+  const reason = `${description} (scope "${scopeName}")`;
+  const options = {
+    place: node.position,
+    ruleId,
+    source: SCOPED_MDX_MESSAGE_SOURCE
+  };
+
+  if (fatal) {
+    file.fail(reason, options);
+  } else {
+    file.message(reason, options);
+  }
+}
+
+/**
+ * Fails the file because of its `scopedMdx` frontmatter (see
+ * `readScopedMdxFrontmatter`).
+ *
+ * @throws Always (`file.fail` throws the fatal message).
+ */
+export function failFrontmatter(file: VFile, reason: string): never {
+  return file.fail(reason, {
+    ruleId: scopedMdxRuleIds.frontmatter,
+    source: SCOPED_MDX_MESSAGE_SOURCE
+  });
+}
+
+/**
+ * Reports registry problems (see `validateRegistry`) as warnings on a
+ * processed file, one per problem. They have no place in the file.
+ */
+export function reportRegistryProblems(
+  file: VFile,
+  problems: ReadonlyArray<MdxRegistryProblem>
+): void {
+  for (const problem of problems) {
+    file.message(problem.message, {
+      ruleId: scopedMdxRuleIds.registry,
+      source: SCOPED_MDX_MESSAGE_SOURCE
+    });
+  }
+}
@@ -1,23 +1,104 @@
 import type { Plugin, Transformer } from 'unified';
+import type { VFile } from 'vfile';
 import type { Parent, Node } from 'unist';
-import type {
-  MdxJsxFlowElement,
-  MdxJsxAttribute,
-  MdxJsxAttributeValueExpression
-} from 'mdast-util-mdx-jsx';
+import type { MdxJsxFlowElement, MdxJsxTextElement } from 'mdast-util-mdx-jsx';
 
 import { is } from 'unist-util-is';
 import { visit, SKIP } from 'unist-util-visit';
-import { valueToEstree } from 'estree-util-value-to-estree';
 
 import type {
   ScopedMdxTransformRegistry,
+  MdxAttributePolicy,
+  MdxGroupMap,
+  MdxGroupTarget,
+  MdxRenameMap,
   MdxRenameTarget,
-  MdxPropValue
+  MdxRenameSource,
+  MdxPropValue,
+  MdxSandboxOptions,
+  MdxScopeRuleTables,
+  ScopedMdxFrontmatter,
+  ScopedMdxPlannedRewrite,
+  ScopedMdxPluginOptions
 } from './types';
+import { inheritScopeAttributes, resolveAttributes } from './attributes';
+import {
+  describeJsxSource,
+  describeMarkdownSource,
+  describeResolvedProps,
+  describeScope,
+  readLiteralAttributes,
+  resolveTargetProps
+} from './rename-source';
+import { selectRenameTarget } from './rename-candidates';
+import {
+  type CompiledSelectorMap,
+  type SelectorContext,
+  compileSelectorMap,
+  matchSelectorEntries
+} from './selectors';
+import { isScopeRuleConfigured, resolveScopeRule } from './scope-rule';
+import { validateRegistry } from './validate-registry';
+import {
+  type ScopedMdxRuleId,
+  failFrontmatter,
+  failRewrite,
+  reportRegistryProblems,
+  reportRewrite,
+  reportViolation,
+  scopedMdxRuleIds
+} from './messages';
+import { createFileFilter } from './file-filter';
+import { readScopedMdxFrontmatter, readYamlFrontmatter } from './frontmatter';
+import { type CascadedTables, cascadeScopeTables } from './cascade';
+import { sanitizeSandboxScope } from './sandbox';
+import { type ScopeTablesFilter, createScopeTablesFilter } from './rule-filter';
+import {
+  type CommentDirective,
+  collectIgnoredNodes
+} from './comment-directives';
+import {
+  convertDirectiveScopes,
+  describeDirective,
+  isDirectiveLabel
+} from './directive-nodes';
+import {
+  type MdxExpressionNode,
+  isMdxExpressionNode,
+  mirrorExpressionJsx,
+  renameExpressionJsxElement
+} from './expression-jsx';
+import {
+  DEFAULT_USED_COMPONENTS_EXPORT,
+  collectUsedComponents,
+  createUsedComponentsExport
+} from './used-components';
+import {
+  type MarkdownRenameSource,
+  isMarkdownRenameSource,
+  selectMarkdownRenameTarget,
+  toMdxJsxElement
+} from './markdown-rename';
 
 type NamedMdxJsxFlowElement = MdxJsxFlowElement & { name: string };
 
+type NamedMdxJsxTextElement = MdxJsxTextElement & { name: string };
+
+type MdxJsxElement = MdxJsxFlowElement | MdxJsxTextElement;
+
+/**
+ * Target props of one rewrite (see `resolveTargetProps`).
+ */
+type TargetProps = Record<string, MdxPropValue> | undefined;
+
+/**
+ * An element built from a target, with the target props it emits.
+ */
+type TargetElement<Element extends MdxJsxElement = MdxJsxElement> = {
+  element: Element;
+  props: TargetProps;
+};
+
 /**
  * Type guard: narrows to an MDX JSX flow element with the fields we rely on.
  */
@@ -31,131 +112,25 @@ const isNamedMdxJsxFlowElement = (
 };
 
 /**
- * Build an `mdxJsxAttributeValueExpression` backed by `data.estree`.
- *
- * The MDX ecosystem has two “channels” for attribute value expressions:
- *
- * 1) `value` (string)
- *    - Historically used to store raw JavaScript source for the expression.
- *    - Set to the empty string here to avoid relying on string parsing/printing.
- *
- * 2) `data.estree` (ESTree Program)
- *    - Treated as the source of truth by unified/MDX tooling when present.
- *    - Encoding the expression as an ESTree Program avoids cases where compilation
- *      can degrade into `prop={}` / `JSXEmptyExpression`.
- *
- * Implementation notes:
- * - `valueToEstree(value)` returns an ESTree *Expression*.
- * - MDX tooling expects `data.estree` to be a *Program*, so the expression is wrapped
- *   in a `Program` containing an `ExpressionStatement`.
+ * Type guard: narrows to an MDX JSX text (inline) element with a string `name`.
  */
-function createAttributeValueExpression(
-  value: MdxPropValue
-): MdxJsxAttributeValueExpression {
-  // (2) Serialize the runtime value into a structural ESTree Expression.
-  const expression = valueToEstree(value);
-
-  return {
-    type: 'mdxJsxAttributeValueExpression',
-
-    // (1) Intentionally empty: `data.estree` is the authoritative representation.
-    value: '',
-
-    data: {
-      // (2) Unified/MDX expects a Program, so the Expression is wrapped accordingly.
-      estree: {
-        type: 'Program',
-        sourceType: 'module',
-        body: [{ type: 'ExpressionStatement', expression }]
-      }
-    }
-  };
-}
-
-/**
- * Convert one prop entry (`name` + `value`) into an `mdxJsxAttribute` node.
- *
- * This function decides how the attribute value is represented in the MDX AST:
- *
- * 1) Boolean attribute presence (`true`)
- *    - MDX encodes “present boolean attributes” by setting `attribute.value = null`.
- *      That AST shape prints as `<X enabled />`.
- *    - This preserves presence semantics instead of emitting an explicit expression
- *      like `enabled={true}`.
- *
- * 2) Everything else (strings, numbers, objects, arrays, Map/Set, etc.)
- *    - Emitted as an `mdxJsxAttributeValueExpression` and backed by a `data.estree`
- *      Program so the MDX toolchain can compile it reliably.
- *
- * Failure mode:
- * - `createAttributeValueExpression` (via `valueToEstree`) can reject values that
- *   cannot be represented as an ESTree expression. In that case, the thrown error
- *   is wrapped to include the prop name for actionable build-time feedback.
- */
-export function toMdxAttribute(
-  propName: string,
-  propValue: MdxPropValue
-): MdxJsxAttribute {
-  // Case 1: `true` is encoded as boolean attribute presence (`value: null`).
-  if (propValue === true) {
-    return { type: 'mdxJsxAttribute', name: propName, value: null };
-  }
-
-  try {
-    // Case 2: non-`true` values are encoded as an expression (`prop={...}`),
-    // backed by `data.estree` for the MDX compiler.
-    return {
-      type: 'mdxJsxAttribute',
-      name: propName,
-      value: createAttributeValueExpression(propValue)
-    };
-  } catch (error) {
-    // Serializer failures become actionable by including the failing prop name
-    // while preserving the original message (when available).
-    const message =
-      error instanceof Error ? error.message : 'Unknown serialization error';
-
-    throw new Error(
-      `Failed to serialize MDX prop "${propName}" into an attribute expression: ${message}`
-    );
-  }
-}
-
-/**
- * Builds an MDX JSX attribute list from a props object.
- *
- * Purpose:
- * - Convert a plain `{ [propName]: propValue }` map into an array of `mdxJsxAttribute` nodes.
- * - Apply the one piece of list-level policy we need here:
- *   - `undefined` means “no attribute” (the key is skipped).
- *
- * All per-value encoding rules (boolean presence vs expression-backed values, etc.)
- * are handled by `toMdxAttribute`.
- */
-export function buildAttributes(
-  props: Record<string, MdxPropValue | undefined> | undefined
-): MdxJsxAttribute[] {
-  if (!props) return [];
-
-  const entries = Object.entries(props);
-
-  const attributes: MdxJsxAttribute[] = [];
-  for (const [propName, propValue] of entries) {
-    // `undefined` means “do not emit this attribute at all”.
-    if (propValue === undefined) continue;
-
-    attributes.push(toMdxAttribute(propName, propValue));
-  }
+const isNamedMdxJsxTextElement = (
+  node: Node
+): node is NamedMdxJsxTextElement => {
+  if (!is(node, { type: 'mdxJsxTextElement' })) return false;
 
-  return attributes;
-}
+  const el = node as MdxJsxTextElement;
+  return typeof el.name === 'string';
+};
 
 /**
- * Applies a `renameFlow` rule to a single MDX JSX flow element in-place.
+ * Applies a rename rule to a single MDX JSX element in-place.
  *
  * What it does:
  * - Renames the JSX tag (e.g. `<br />` → `<MessageBlankLine />`).
- * - Replaces attributes (e.g. `variant="timeline"`).
+ * - Emits target props and combines them with the source attributes according
+ *   to `transformOptions.attributePolicy` (default: replace, e.g.
+ *   `variant="timeline"` only).
  *
  * IMPORTANT: marker/void vs container replacements
  * - Some replacements are “marker-style” and should be treated as void at the
@@ -175,33 +150,96 @@ export function buildAttributes(
  *    - Result: <MessageParagraph variant="timeline">Hello</MessageParagraph>
  *
  * Note:
- * - This only applies to MDX JSX flow elements (`MdxJsxFlowElement`).
- * - It does not affect Markdown paragraph nodes (`type: "paragraph"`).
+ * - `renameFlow` passes MDX JSX flow elements (`MdxJsxFlowElement`) directly.
+ * - `renameText` passes MDX JSX text elements (`MdxJsxTextElement`) directly;
+ *   `childrenPolicy: "clear"` empties their inline children the same way.
+ * - `renameMarkdown` passes the element shell built from a markdown node
+ *   (see `toMdxJsxElement`), which is an inline element for images. Its
+ *   source attributes are the node's fields, carried over by default
+ *   (`defaultPolicy: "merge-target-wins"`): `![Logo](/a.png)` →
+ *   `<Img src="/a.png" alt="Logo" />`.
+ *
+ * Computed props:
+ * - When `component.props` is a function, it is resolved first (before the
+ *   element is mutated) with the source description from `describeSource`.
+ *
+ * Inherited props:
+ * - `inheritFromScope` copies attributes of the enclosing scope element
+ *   (`scopeElement`) onto the renamed element; see `inheritScopeAttributes`.
+ *
+ * @returns The target props (computed props resolved), for the rewrite plan.
  */
-function applyFlowRename(
-  element: MdxJsxFlowElement,
-  target: MdxRenameTarget
-): void {
+function applyRename(
+  element: MdxJsxElement,
+  target: MdxRenameTarget,
+  scopeElement: NamedMdxJsxFlowElement,
+  describeSource: () => MdxRenameSource,
+  defaultPolicy?: MdxAttributePolicy
+): TargetProps {
+  const props = resolveTargetProps(target, describeSource);
+  const inherited = inheritScopeAttributes(
+    scopeElement.attributes,
+    target.inheritFromScope
+  );
+
   element.name = target.component.name;
-  element.attributes = buildAttributes(target.component.props);
+  element.attributes = resolveAttributes(
+    element.attributes,
+    props,
+    target.transformOptions?.attributePolicy ?? defaultPolicy,
+    inherited
+  );
 
   // Marker-style replacements are treated as void at the flow JSX level.
   // Container replacements keep children intact.
   if (target.transformOptions?.childrenPolicy === 'clear') {
     element.children = [];
   }
+
+  return props;
+}
+
+/**
+ * Replaces a markdown node with a renamed MDX JSX element.
+ *
+ * The node is swapped in its parent's `children` (rather than mutated) because
+ * the node kind changes (`paragraph` → `mdxJsxFlowElement`).
+ *
+ * @returns The replacement element and its target props.
+ */
+function applyMarkdownRename(
+  node: MarkdownRenameSource,
+  index: number,
+  parent: Parent,
+  target: MdxRenameTarget,
+  scopeElement: NamedMdxJsxFlowElement,
+  scope: MdxRenameSource['scope']
+): TargetElement {
+  const element = toMdxJsxElement(node);
+  const props = applyRename(
+    element,
+    target,
+    scopeElement,
+    () => describeMarkdownSource(node, index, scope),
+    'merge-target-wins'
+  );
+
+  parent.children[index] = element;
+
+  return { element, props };
 }
 
 /**
  * Predicate factory: selects *scope* nodes for `unist-util-visit`.
  *
  * What it does:
- * - Produces the `test` function passed to `visit(tree, test, visitor)`.
+ * - Produces the `test` function of the outer traversal (`visit(tree, …)`).
  * - A node is considered a *scope* when:
  *   1) it is an MDX JSX **flow** element (`mdxJsxFlowElement`),
  *   2) it has a **named** tag (fragments have `name: null`),
  *   3) its tag name is present in the transform registry **and** that registry
- *      entry explicitly declares a `renameFlow` property.
+ *      entry explicitly declares a rule property (`renameFlow`,
+ *      `renameMarkdown`, `variants`, …; see `isScopeRuleConfigured`).
  *
  * Example:
  * ```ts
@@ -218,16 +256,18 @@ function applyFlowRename(
  * };
  * ```
  *
- * In an MDX AST, this causes the outer `visit(tree, test, visitor)` to call `visitor`
- * only for `<TimelineIngestor />` flow nodes. The visitor can then traverse that
+ * In an MDX AST, this causes the outer traversal to call `visitor` only for
+ * `<TimelineIngestor />` flow nodes. The visitor can then traverse that
  * subtree and apply the configured renames.
  *
  * Explicit configuration semantics:
- * - `renameFlow` is treated as enabled by *presence* (an own property), not by
+ * - Rule keys are treated as enabled by *presence* (an own property), not by
  *   truthiness:
- *   - `{ renameFlow: { br: ... } }` → configured
- *   - `{ renameFlow: {} }`          → configured (scope boundary still applies)
- *   - `{}`                          → not configured
+ *   - `{ renameFlow: { br: ... } }`            → configured
+ *   - `{ renameMarkdown: { paragraph: ... } }` → configured
+ *   - `{ variants: [...] }`                    → configured
+ *   - `{ renameFlow: {} }`                     → configured (scope boundary still applies)
+ *   - `{}`                                     → not configured
  *
  * Why this exists:
  * - Performance: the registry is static configuration. The set of active scope
@@ -256,11 +296,9 @@ const shouldProcessScope = (
 
   for (const [scopeComponentName, rule] of registryEntries) {
     // Presence-based enablement:
-    // - true if `renameFlow` is explicitly declared on the rule object.
-    // - false if the rule does not declare `renameFlow` at all.
-    const isRenameFlowConfigured = Object.hasOwn(rule, 'renameFlow');
-
-    if (isRenameFlowConfigured) {
+    // - true if any scope rule key is explicitly declared on the rule object.
+    // - false if the rule declares none of them.
+    if (isScopeRuleConfigured(rule)) {
       activeScopeNames.add(scopeComponentName);
     }
   }
@@ -279,56 +317,1053 @@ const shouldProcessScope = (
 
 type ScopeComponentNames = ReadonlySet<string>;
 
+/**
+ * Content checks of scope instances (see `strict`, `allowedInScope` and
+ * `sandbox`).
+ *
+ * - `componentNames`: the known component names (`options.componentNames`).
+ * - `strict`: components outside `componentNames` fail the file.
+ * - `allowedInScope`: scope name → names allowed inside that scope.
+ * - `sandbox`: scope name → sandbox options (see `sanitizeSandboxScope`).
+ */
+type ScopeContentChecks = {
+  componentNames: ReadonlySet<string>;
+  strict: boolean;
+  allowedInScope: ReadonlyMap<string, ReadonlySet<string>>;
+  sandbox: ReadonlyMap<string, MdxSandboxOptions>;
+};
+
+/**
+ * Builds the map of a per-scope option (`allowedInScope`, `sandbox`).
+ *
+ * @throws When a key is not a configured scope of `registry`.
+ */
+function toScopeOptionMap<Value, Result>(
+  registry: ScopedMdxTransformRegistry,
+  optionName: string,
+  option: Record<string, Value> | undefined,
+  toResult: (value: Value) => Result
+): Map<string, Result> {
+  return new Map(
+    Object.entries(option ?? {}).map(([scopeName, value]) => {
+      const rule = Object.hasOwn(registry, scopeName)
+        ? registry[scopeName]
+        : undefined;
+      if (!rule || !isScopeRuleConfigured(rule)) {
+        throw new Error(
+          `${optionName}: "${scopeName}" is not a configured scope`
+        );
+      }
+      return [scopeName, toResult(value)];
+    })
+  );
+}
+
+/**
+ * Lowercase names without a member access (`p`, `custom-tag`) are intrinsic
+ * tags; everything else (`Callout`, `ui.Card`) is a component reference.
+ */
+const isIntrinsicTagName = (name: string): boolean =>
+  /^[a-z]/.test(name) && !name.includes('.');
+
+/**
+ * Selector-compiled tables of a registry, keyed by the authored object.
+ *
+ * - `renameMaps`: `renameFlow`, `renameText` and `wrapFlow` tables.
+ * - `selectorLists`: `unwrapFlow` / `removeFlow` lists (every entry is `true`).
+ * - `groupMaps`: `groupFlow` tables.
+ */
+type CompiledSelectors = {
+  renameMaps: WeakMap<MdxRenameMap, CompiledSelectorMap<MdxRenameMap[string]>>;
+  selectorLists: WeakMap<ReadonlyArray<string>, CompiledSelectorMap<true>>;
+  groupMaps: WeakMap<MdxGroupMap, CompiledSelectorMap<MdxGroupTarget>>;
+};
+
+/**
+ * Runs `compile`, naming the scope and table in its error message.
+ */
+function compileInScope<Compiled>(
+  compile: () => Compiled,
+  key: string,
+  scopeName: string
+): Compiled {
+  try {
+    return compile();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${message} (in ${key} of "${scopeName}")`);
+  }
+}
+
+/**
+ * Compiles the selector-addressed tables of one rule (or variant) that are
+ * not compiled yet into `compiled`.
+ *
+ * @throws When a key is not a valid selector (the message names the scope).
+ */
+function compileTableSelectors(
+  compiled: CompiledSelectors,
+  table: MdxScopeRuleTables,
+  scopeName: string
+): void {
+  for (const key of ['renameFlow', 'renameText', 'wrapFlow'] as const) {
+    const renameMap = table[key];
+    if (!renameMap || compiled.renameMaps.has(renameMap)) continue;
+
+    compiled.renameMaps.set(
+      renameMap,
+      compileInScope(() => compileSelectorMap(renameMap), key, scopeName)
+    );
+  }
+
+  for (const key of ['unwrapFlow', 'removeFlow'] as const) {
+    const selectors = table[key];
+    if (!selectors || compiled.selectorLists.has(selectors)) continue;
+
+    const asTable = Object.fromEntries(
+      selectors.map(selector => [selector, true as const])
+    );
+    compiled.selectorLists.set(
+      selectors,
+      compileInScope(() => compileSelectorMap(asTable), key, scopeName)
+    );
+  }
+
+  const groupMap = table.groupFlow;
+  if (groupMap && !compiled.groupMaps.has(groupMap)) {
+    compiled.groupMaps.set(
+      groupMap,
+      compileInScope(() => compileSelectorMap(groupMap), 'groupFlow', scopeName)
+    );
+  }
+}
+
+/**
+ * Compiles the selector keys of every selector-addressed table once, when the
+ * plugin is created (default tables and scope variant tables). Tables
+ * combined by `cascade` are compiled when first used.
+ *
+ * @param registry - Mapping of scope component name → transform rule.
+ * @returns Compiled tables keyed by the authored table object.
+ * @throws When a key is not a valid selector (the message names the scope).
+ */
+function compileRegistrySelectors(
+  registry: ScopedMdxTransformRegistry
+): CompiledSelectors {
+  const compiled: CompiledSelectors = {
+    renameMaps: new WeakMap(),
+    selectorLists: new WeakMap(),
+    groupMaps: new WeakMap()
+  };
+
+  for (const [scopeName, rule] of Object.entries(registry)) {
+    const tables = [rule, ...(rule.variants ?? []).map(v => v.rule)];
+
+    for (const table of tables) {
+      compileTableSelectors(compiled, table, scopeName);
+    }
+  }
+
+  return compiled;
+}
+
+/**
+ * Resolves the rename target of a JSX element from a compiled table.
+ *
+ * - Matching selector keys are tried from highest to lowest priority (see
+ *   `matchSelectorEntries`).
+ * - The first entry that yields a target wins; a candidate list whose
+ *   candidates all fail falls through to the next matching key.
+ * - Literal attributes are read at most once, and only for candidate lists.
+ */
+function selectJsxRenameTarget(
+  compiled: CompiledSelectorMap<MdxRenameMap[string]>,
+  node: NamedMdxJsxFlowElement | NamedMdxJsxTextElement,
+  context: SelectorContext
+): MdxRenameTarget | undefined {
+  let attributes: ReturnType<typeof readLiteralAttributes> | undefined;
+  const readAttributes = () =>
+    (attributes ??= readLiteralAttributes(node.attributes));
+
+  for (const entry of matchSelectorEntries(compiled, node.name, context)) {
+    const target = selectRenameTarget(entry, readAttributes);
+    if (target) return target;
+  }
+
+  return undefined;
+}
+
+/**
+ * A structural edit recorded during the inner traversal.
+ *
+ * Edits are applied after the traversal (see `applyStructuralEdits`), so
+ * selectors always match against the authored structure.
+ */
+type StructuralEdit =
+  | { kind: 'remove'; node: Node; parent: Parent }
+  | { kind: 'unwrap'; node: NamedMdxJsxFlowElement; parent: Parent }
+  | {
+      kind: 'wrap';
+      node: Node;
+      parent: Parent;
+      wrapper: MdxJsxFlowElement;
+    };
+
+/**
+ * Applies recorded structural edits, last recorded first.
+ *
+ * Traversal order records ancestors before descendants, so applying in reverse
+ * edits a node before its parent is unwrapped or wrapped; each node is located
+ * in its parent at application time (earlier edits may have shifted indexes).
+ */
+function applyStructuralEdits(edits: ReadonlyArray<StructuralEdit>): void {
+  for (const edit of [...edits].reverse()) {
+    const index = edit.parent.children.indexOf(edit.node);
+    if (index === -1) continue;
+
+    switch (edit.kind) {
+      case 'remove':
+        edit.parent.children.splice(index, 1);
+        break;
+      case 'unwrap':
+        edit.parent.children.splice(index, 1, ...edit.node.children);
+        break;
+      case 'wrap':
+        edit.wrapper.children = [
+          edit.node as MdxJsxFlowElement['children'][number]
+        ];
+        edit.parent.children.splice(index, 1, edit.wrapper);
+        break;
+    }
+  }
+}
+
+/**
+ * A `groupFlow` member: its group target, and the wrapper built from it
+ * (used when the member starts a run).
+ */
+type GroupMember = { target: MdxGroupTarget } & TargetElement;
+
+type OnGroup = (
+  run: ReadonlyArray<Node>,
+  member: GroupMember,
+  memberCount: number
+) => void;
+
+const isBlankText = (node: Node): boolean =>
+  node.type === 'text' && !(node as Node & { value: string }).value.trim();
+
+/**
+ * Collects runs of consecutive members of one parent into group wrappers.
+ *
+ * Run rules:
+ * - Members join a run only when they share the same group target.
+ * - Whitespace-only text between two members is kept inside the run, unless
+ *   the target sets `groupOptions.breakOnBlankText`.
+ * - Runs shorter than `groupOptions.minRunLength` (default `1`) stay as-is.
+ *
+ * The wrapper of a run is the one prepared for its first member. `onGroup`
+ * receives the run (members and the blank text kept between them) and the
+ * number of members in it.
+ */
+function groupRuns(
+  parent: Parent,
+  members: ReadonlyMap<Node, GroupMember>,
+  onGroup: OnGroup
+): void {
+  const children = parent.children;
+  const grouped: Node[] = [];
+
+  let index = 0;
+  while (index < children.length) {
+    const first = children[index] as Node;
+    const member = members.get(first);
+    if (!member) {
+      grouped.push(first);
+      index += 1;
+      continue;
+    }
+
+    const { minRunLength = 1, breakOnBlankText = false } =
+      member.target.groupOptions ?? {};
+
+    // `end` is exclusive and always follows a member, so trailing blank text
+    // is left outside the run.
+    let end = index + 1;
+    let memberCount = 1;
+    for (let cursor = end; cursor < children.length; cursor += 1) {
+      const next = children[cursor] as Node;
+      if (members.get(next)?.target === member.target) {
+        memberCount += 1;
+        end = cursor + 1;
+      } else if (breakOnBlankText || !isBlankText(next)) {
+        break;
+      }
+    }
+
+    const run = children.slice(index, end);
+    if (memberCount >= minRunLength) {
+      member.element.children = run as MdxJsxElement['children'];
+      grouped.push(member.element);
+      onGroup(run, member, memberCount);
+    } else {
+      grouped.push(...run);
+    }
+    index = end;
+  }
+
+  children.splice(0, children.length, ...(grouped as typeof children));
+}
+
+/**
+ * Groups the recorded `groupFlow` members of a scope (see `groupRuns`).
+ *
+ * Members are located in their *current* parents, so runs reflect the
+ * structural edits already applied (e.g. members of an unwrapped element join
+ * runs of the element's parent). `onGroup` is called for every run that is
+ * wrapped.
+ */
+function groupFlowRuns(
+  scopeElement: NamedMdxJsxFlowElement,
+  members: ReadonlyMap<Node, GroupMember>,
+  onGroup: OnGroup
+): void {
+  if (members.size === 0) return;
+
+  const parents = new Set<Parent>();
+  visit(scopeElement, (node: Node, _index, parent: Parent | undefined) => {
+    if (parent && members.has(node)) parents.add(parent);
+  });
+
+  for (const parent of parents) {
+    groupRuns(parent, members, onGroup);
+  }
+}
+
+/**
+ * Builds an element from a target (used by `wrapFlow`, `groupFlow`,
+ * `prependToScope` and `appendToScope`); computed props receive the
+ * `describeSource` result.
+ *
+ * The element is a flow element unless `type` asks for an inline one (groups
+ * of inline members).
+ */
+function createTargetElement<
+  Type extends MdxJsxElement['type'] = 'mdxJsxFlowElement'
+>(
+  target: MdxRenameTarget,
+  scopeElement: NamedMdxJsxFlowElement,
+  describeSource: () => MdxRenameSource,
+  type: Type = 'mdxJsxFlowElement' as Type
+): TargetElement<Extract<MdxJsxElement, { type: Type }>> {
+  const element = {
+    type,
+    name: null,
+    attributes: [],
+    children: []
+  } as unknown as Extract<MdxJsxElement, { type: Type }>;
+  const props = applyRename(element, target, scopeElement, describeSource);
+
+  return { element, props };
+}
+
+/**
+ * Plan entry fields of one rewrite, besides the ones the visitor knows
+ * (`ruleId`, `scope`, `position`, `message`).
+ */
+type PlannedRewriteDetails = Pick<
+  ScopedMdxPlannedRewrite,
+  'source' | 'target' | 'props' | 'childrenPolicy'
+>;
+
+/**
+ * Describes the target side of a planned rewrite.
+ */
+const describePlannedTarget = (
+  target: MdxRenameTarget,
+  { element, props }: TargetElement
+): Omit<PlannedRewriteDetails, 'source'> => ({
+  target: target.component.name,
+  props: describeResolvedProps(element.attributes, props),
+  childrenPolicy: target.transformOptions?.childrenPolicy ?? 'preserve'
+});
+
+/**
+ * Type guard: selects the nodes the inner (scope-local) traversal considers.
+ *
+ * - Named MDX JSX flow and text elements (rename candidates and nested scope
+ *   boundaries).
+ * - Markdown nodes supported by `renameMarkdown`.
+ */
+const isScopeRewriteCandidate = (
+  node: Node
+): node is
+  NamedMdxJsxFlowElement | NamedMdxJsxTextElement | MarkdownRenameSource =>
+  isNamedMdxJsxFlowElement(node) ||
+  isNamedMdxJsxTextElement(node) ||
+  isMarkdownRenameSource(node);
+
+/**
+ * Per-document controls over rewrites: frontmatter `disable` / `only` (see
+ * `createScopeTablesFilter`) and comment directives (see
+ * `collectIgnoredNodes`).
+ */
+type DocumentControls = {
+  filterTables: ScopeTablesFilter;
+  ignoredNodes: ReadonlyMap<Node, CommentDirective>;
+};
+
 /**
  * Visitor factory: applies a scope rule to descendants of a matched scope element.
  *
  * Stages:
- * 1) Resolve the scope rule (`renameFlow`) for the current scope node.
- * 2) Walk the scope subtree and consider only named MDX JSX flow elements.
- * 3) Treat nested scopes as boundaries (do not traverse into their subtrees).
- * 4) If a node name matches a configured rename key, rewrite it in-place.
+ * 1) Resolve the scope rule (`renameFlow`, `renameText`, `renameMarkdown`) for
+ *    the current scope node, selecting a `variants` entry by the scope's
+ *    literal attributes (see `resolveScopeRule`), keep the rewrites the
+ *    document enables (`controls.filterTables`), and combine it with the
+ *    tables cascaded from enclosing scopes (see `cascadeScopeTables`).
+ *    Sandboxed scopes are sanitized next (see `sanitizeSandboxScope`).
+ * 2) Walk the scope subtree and consider named MDX JSX flow/text elements and
+ *    supported markdown nodes. Nodes excluded by comment directives
+ *    (`controls.ignoredNodes`) are left as authored, subtree included.
+ * 3) Treat nested scopes and opaque components as boundaries (do not
+ *    traverse into their subtrees). Nested scopes receive the tables this
+ *    scope cascades (`cascade: 'inherit' | 'merge'`) and apply them
+ *    themselves.
+ * 4) If a JSX node matches a configured selector key of its kind
+ *    (`renameFlow` for flow elements, `renameText` for inline elements),
+ *    rewrite it in-place (see `selectJsxRenameTarget`).
+ *    Flow elements are first checked against `removeFlow` (dropped with their
+ *    subtree) and `unwrapFlow` (replaced by their children, not renamed);
+ *    `wrapFlow` builds a wrapper from the authored element before it is
+ *    renamed, and `groupFlow` records it as a group member.
+ *    JSX inside MDX expressions (`{cond && <p />}`) is renamed the same way,
+ *    through a mirror of the expression's estree (renames only).
+ * 5) If a markdown node matches a configured `renameMarkdown` target, replace
+ *    it with the renamed JSX element.
+ * 6) Apply the recorded structural edits, group runs of `groupFlow` members,
+ *    then insert `prependToScope` / `appendToScope` elements as the scope's
+ *    first / last children.
+ *
+ * Every rewrite and every skipped boundary is reported on `file` as an
+ * info message (see `reportRewrite`); an error raised while building a target
+ * element fails the file at the source node (see `failRewrite`). With a
+ * `plan`, every rewrite is also recorded as a `ScopedMdxPlannedRewrite`.
  *
  * @param registry - Scope name → transform rule mapping.
  * @param scopeComponentNames - Set of all scope component names (used for boundary checks).
+ * @param opaqueComponentNames - Components whose subtrees are never rewritten.
+ * @param compiledSelectors - Selector-compiled tables (see `compileRegistrySelectors`).
+ * @param checks - Content checks applied to the authored elements.
+ * @param controls - The document's rule filter and ignored nodes.
+ * @param file - The file being transformed (receives the messages).
+ * @param plan - Receives the planned rewrites (`mode: "report"`).
  * @returns A `visit`-compatible visitor callback.
  */
-const createScopeVisitor =
-  (
-    registry: ScopedMdxTransformRegistry,
-    scopeComponentNames: ScopeComponentNames
-  ) =>
-  (
-    scopeElement: NamedMdxJsxFlowElement
-    // _index: number | null,
-    // _parent: Parent | null
+const createScopeVisitor = (
+  registry: ScopedMdxTransformRegistry,
+  scopeComponentNames: ScopeComponentNames,
+  opaqueComponentNames: ReadonlySet<string>,
+  compiledSelectors: CompiledSelectors,
+  checks: ScopeContentChecks,
+  controls: DocumentControls,
+  file: VFile,
+  plan?: ScopedMdxPlannedRewrite[]
+) => {
+  // Nested scope element → tables cascaded into it, recorded by the
+  // enclosing scope's traversal (scopes are visited outermost first).
+  const cascadedTables = new WeakMap<Node, CascadedTables>();
+
+  return (
+    scopeElement: NamedMdxJsxFlowElement,
+    scopeIndex: number | undefined
   ): void => {
-    // Step 1: Read the rule for this scope instance.
-    // Note: a scope can be "active" (selected by the predicate) but still have
-    // `renameFlow` undefined (e.g. future rule types); guard cheaply here.
     const scopeRule = registry[scopeElement.name];
-    const renameFlow = scopeRule?.renameFlow;
-    if (!renameFlow) return;
+    if (!scopeRule) return;
+
+    // Scope description shared by variant selection and by computed props of
+    // every rename in this scope.
+    const scope = describeScope(scopeElement);
+
+    // Step 1: Resolve the tables for this scope instance (variant or default,
+    // filtered for the document, combined with cascaded tables), and what it
+    // cascades further: its combined tables, or, when it isolates, only what
+    // it received.
+    // Note: a scope can be "active" (selected by the predicate) but still have
+    // no rename map (e.g. no variant matches and no default table); guard
+    // cheaply here.
+    const ownTables = controls.filterTables(
+      scopeElement.name,
+      resolveScopeRule(scopeRule, scope.attributes)
+    );
+    const cascaded = cascadedTables.get(scopeElement);
+    const tables = cascaded
+      ? cascadeScopeTables(cascaded, ownTables)
+      : ownTables;
+    // Authored tables are compiled already; filtered or combined ones are
+    // compiled on first use.
+    compileTableSelectors(compiledSelectors, tables, scopeElement.name);
+    const cascadeMode = scopeRule.cascade ?? 'isolate';
+    const cascadedFurther: CascadedTables | undefined =
+      cascadeMode === 'isolate' ? cascaded : { tables, mode: cascadeMode };
+    const { renameFlow, renameText, renameMarkdown, wrapFlow } = tables;
+    const allowedNames = checks.allowedInScope.get(scopeElement.name);
+    const sandbox = checks.sandbox.get(scopeElement.name);
+    const checksContent = Boolean(checks.strict || allowedNames || sandbox);
+    if (
+      !checksContent &&
+      !Object.values(tables).some(table => table !== undefined)
+    ) {
+      return;
+    }
+
+    const removeSelectors =
+      tables.removeFlow &&
+      compiledSelectors.selectorLists.get(tables.removeFlow);
+    const unwrapSelectors =
+      tables.unwrapFlow &&
+      compiledSelectors.selectorLists.get(tables.unwrapFlow);
+    const compiledWrapFlow =
+      wrapFlow && compiledSelectors.renameMaps.get(wrapFlow);
+    const compiledGroupFlow =
+      tables.groupFlow && compiledSelectors.groupMaps.get(tables.groupFlow);
+    const edits: StructuralEdit[] = [];
+    const groupMembers = new Map<Node, GroupMember>();
+
+    // Messages of this scope instance: `report` for rewrites (and their plan
+    // entries), `guard` turns a failure to build a target element into a
+    // positioned fatal message.
+    const report = (
+      node: Node,
+      ruleId: ScopedMdxRuleId,
+      description: string,
+      rewrite?: PlannedRewriteDetails
+    ) => {
+      reportRewrite(file, node, ruleId, scopeElement.name, description);
+      if (plan && rewrite) {
+        plan.push({
+          ruleId,
+          scope: scopeElement.name,
+          position: node.position,
+          message: description,
+          ...rewrite
+        });
+      }
+    };
+    const guard = <Result>(node: Node, build: () => Result): Result => {
+      try {
+        return build();
+      } catch (error) {
+        return failRewrite(file, node, scopeElement.name, error);
+      }
+    };
+
+    // Selector state for this scope instance:
+    // - `parentOf` records the traversal's parent links, so the path from the
+    //   scope element to any node can be rebuilt for structural selectors.
+    // - `sourceNames` keeps the pre-rename name of rewritten nodes, so earlier
+    //   rewrites never change what later selectors see.
+    const parentOf = new Map<Node, Parent>();
+    const sourceNames = new WeakMap<Node, string>();
+    const selectorContextFor = (node: Node): SelectorContext => {
+      const path = [node];
+      for (
+        let current = parentOf.get(node);
+        current;
+        current = parentOf.get(current)
+      ) {
+        path.unshift(current);
+      }
+
+      return {
+        path,
+        nameOf: candidate =>
+          sourceNames.get(candidate) ??
+          (isNamedMdxJsxFlowElement(candidate) ||
+          isNamedMdxJsxTextElement(candidate)
+            ? candidate.name
+            : candidate.type)
+      };
+    };
+
+    // Step 1b: Sandboxed scopes lose untrusted content (whole subtree, nested
+    // scopes included) before anything is matched or rewritten.
+    if (sandbox) {
+      sanitizeSandboxScope(
+        scopeElement,
+        sandbox,
+        checks.componentNames,
+        (node, description, fatal) =>
+          reportViolation(
+            file,
+            node,
+            scopedMdxRuleIds.sandbox,
+            scopeElement.name,
+            description,
+            fatal
+          )
+      );
+    }
+
+    // Step 4d (called from the traversal): JSX inside expressions
+    // (`{cond && <p />}`) is checked and renamed like authored JSX, on a
+    // mirror of the expression's estree (see `mirrorExpressionJsx`); only
+    // renames apply.
+    // `key` is kept on renamed elements whatever the attribute policy, since
+    // expressions render lists.
+    // Content checks (`strict`, `allowedInScope`) of an element, on its
+    // authored name; `where` names the element's context in messages.
+    const checkContent = (
+      node: NamedMdxJsxFlowElement | NamedMdxJsxTextElement,
+      where = ''
+    ) => {
+      if (
+        checks.strict &&
+        !isIntrinsicTagName(node.name) &&
+        !checks.componentNames.has(node.name)
+      ) {
+        reportViolation(
+          file,
+          node,
+          scopedMdxRuleIds.unknownComponent,
+          scopeElement.name,
+          `Unknown component <${node.name}>${where}`,
+          true
+        );
+      }
+      if (allowedNames && !allowedNames.has(node.name)) {
+        reportViolation(
+          file,
+          node,
+          scopedMdxRuleIds.notAllowed,
+          scopeElement.name,
+          `<${node.name}>${where} is not allowed in <${scopeElement.name}>`
+        );
+      }
+    };
+
+    const compiledRenameFlow =
+      renameFlow && compiledSelectors.renameMaps.get(renameFlow);
+    const compiledRenameText =
+      renameText && compiledSelectors.renameMaps.get(renameText);
+    const renameExpressionJsx = (expression: MdxExpressionNode) => {
+      if (
+        !compiledRenameFlow &&
+        !compiledRenameText &&
+        !checks.strict &&
+        !allowedNames
+      ) {
+        return;
+      }
+      const mirror = mirrorExpressionJsx(expression);
+      if (!mirror) return;
+
+      // The mirror stands in for the expression, so selectors see the
+      // expression's ancestors above its outermost elements.
+      const expressionParent = parentOf.get(expression);
+      if (expressionParent) parentOf.set(mirror.root, expressionParent);
+
+      visit(
+        mirror.root,
+        (
+          mirrored: Node,
+          index: number | undefined,
+          parent: Parent | undefined
+        ) => {
+          if (parent) parentOf.set(mirrored, parent);
+
+          const element = mirror.elements.get(mirrored);
+          if (
+            !element ||
+            !(
+              isNamedMdxJsxFlowElement(mirrored) ||
+              isNamedMdxJsxTextElement(mirrored)
+            )
+          ) {
+            return;
+          }
+
+          checkContent(mirrored, ' in expression');
+
+          if (scopeComponentNames.has(mirrored.name)) {
+            report(
+              mirrored,
+              scopedMdxRuleIds.nestedScope,
+              `Skipped nested scope <${mirrored.name}> in expression`
+            );
+            return SKIP;
+          }
+          if (opaqueComponentNames.has(mirrored.name)) {
+            report(
+              mirrored,
+              scopedMdxRuleIds.opaque,
+              `Skipped opaque <${mirrored.name}> in expression`
+            );
+            return SKIP;
+          }
+
+          const compiled =
+            mirrored.type === 'mdxJsxFlowElement'
+              ? compiledRenameFlow
+              : compiledRenameText;
+          const renameTarget =
+            compiled &&
+            selectJsxRenameTarget(
+              compiled,
+              mirrored,
+              selectorContextFor(mirrored)
+            );
+          if (!renameTarget) return;
+
+          const renamed = { ...mirrored };
+          const props = guard(mirrored, () => {
+            const props = applyRename(renamed, renameTarget, scopeElement, () =>
+              describeJsxSource(mirrored, index ?? 0, scope)
+            );
+            const key = mirrored.attributes.find(
+              attribute =>
+                attribute.type === 'mdxJsxAttribute' && attribute.name === 'key'
+            );
+            if (key && !renamed.attributes.includes(key)) {
+              renamed.attributes = [key, ...renamed.attributes];
+            }
+            renameExpressionJsxElement(
+              element,
+              renamed,
+              renameTarget.transformOptions?.childrenPolicy === 'clear'
+            );
+            return props;
+          });
+          report(
+            mirrored,
+            scopedMdxRuleIds.rename,
+            `Renamed <${mirrored.name}> to <${renameTarget.component.name}> in expression`,
+            {
+              source: mirrored.name,
+              ...describePlannedTarget(renameTarget, {
+                element: renamed,
+                props
+              })
+            }
+          );
+        }
+      );
+    };
 
     // Step 2: Traverse *within* this scope node.
-    // The inner traversal is scoped to `scopeElement`, so `_parent` is not needed.
-    visit(scopeElement, isNamedMdxJsxFlowElement, element => {
-      // Step 2a: Skip the scope root itself; only process descendants.
-      if (element === scopeElement) return;
-
-      // Step 3: Nested scopes are boundaries.
-      // Encountering any other configured scope stops traversal into its subtree.
-      if (scopeComponentNames.has(element.name)) {
-        return SKIP;
+    // The inner traversal is scoped to `scopeElement`; `parent` is recorded for
+    // selectors and used to swap markdown nodes for their JSX replacements.
+    visit(
+      scopeElement,
+      (node: Node, index: number | undefined, parent: Parent | undefined) => {
+        if (parent) parentOf.set(node, parent);
+
+        // Step 2a: Content excluded by a comment directive is not rewritten
+        // or checked (nested scopes in it are not processed either).
+        const directive = controls.ignoredNodes.get(node);
+        if (directive) {
+          const name =
+            isNamedMdxJsxFlowElement(node) || isNamedMdxJsxTextElement(node)
+              ? `<${node.name}>`
+              : node.type;
+          report(
+            node,
+            scopedMdxRuleIds.ignored,
+            `Ignored ${name} (${directive})`
+          );
+          return SKIP;
+        }
+
+        // A container directive's `[label]` is its title, not content: it
+        // stays as authored.
+        if (isDirectiveLabel(node)) return SKIP;
+
+        if (isMdxExpressionNode(node)) {
+          renameExpressionJsx(node);
+          return;
+        }
+
+        // Step 2b: Skip the scope root itself and nodes no rule can address.
+        if (node === scopeElement || !isScopeRewriteCandidate(node)) return;
+
+        if (isNamedMdxJsxFlowElement(node) || isNamedMdxJsxTextElement(node)) {
+          // Step 2c: Content checks, on the authored name (nested scope
+          // elements included, their content is checked by their own visit).
+          checkContent(node);
+
+          // Step 3: Nested scopes are boundaries.
+          // Encountering any other configured scope stops traversal into its
+          // subtree; cascaded tables are handed to it instead.
+          if (scopeComponentNames.has(node.name)) {
+            if (cascadedFurther) cascadedTables.set(node, cascadedFurther);
+            report(
+              node,
+              scopedMdxRuleIds.nestedScope,
+              `Skipped nested scope <${node.name}>`
+            );
+            return SKIP;
+          }
+
+          // Step 3b: Opaque components are left as authored, subtree included.
+          if (opaqueComponentNames.has(node.name)) {
+            report(
+              node,
+              scopedMdxRuleIds.opaque,
+              `Skipped opaque <${node.name}>`
+            );
+            return SKIP;
+          }
+
+          // Step 4a: Structural edits (flow elements only).
+          const context = selectorContextFor(node);
+          if (node.type === 'mdxJsxFlowElement' && parent) {
+            if (
+              removeSelectors &&
+              matchSelectorEntries(removeSelectors, node.name, context).length
+            ) {
+              edits.push({ kind: 'remove', node, parent });
+              report(node, scopedMdxRuleIds.remove, `Removed <${node.name}>`, {
+                source: node.name
+              });
+              return SKIP;
+            }
+
+            if (
+              unwrapSelectors &&
+              matchSelectorEntries(unwrapSelectors, node.name, context).length
+            ) {
+              edits.push({ kind: 'unwrap', node, parent });
+              report(
+                node,
+                scopedMdxRuleIds.unwrap,
+                `Unwrapped <${node.name}>`,
+                { source: node.name }
+              );
+              return;
+            }
+
+            const wrapTarget =
+              compiledWrapFlow &&
+              selectJsxRenameTarget(compiledWrapFlow, node, context);
+            if (wrapTarget) {
+              const { element: wrapper, props } = guard(node, () =>
+                createTargetElement(wrapTarget, scopeElement, () =>
+                  describeJsxSource(node, index ?? 0, scope)
+                )
+              );
+              edits.push({ kind: 'wrap', node, parent, wrapper });
+              report(
+                node,
+                scopedMdxRuleIds.wrap,
+                `Wrapped <${node.name}> in <${wrapTarget.component.name}>`,
+                {
+                  source: node.name,
+                  ...describePlannedTarget(wrapTarget, {
+                    element: wrapper,
+                    props
+                  })
+                }
+              );
+            }
+          }
+
+          // Step 4b: Group membership (flow and inline elements); the wrapper
+          // takes the member's kind.
+          const [groupTarget] = compiledGroupFlow
+            ? matchSelectorEntries(compiledGroupFlow, node.name, context)
+            : [];
+          if (groupTarget) {
+            const wrapper = guard(node, () =>
+              createTargetElement(
+                groupTarget,
+                scopeElement,
+                () => describeJsxSource(node, index ?? 0, scope),
+                node.type
+              )
+            );
+            groupMembers.set(node, { target: groupTarget, ...wrapper });
+          }
+
+          // Step 4c: Apply renames only for matching selector keys.
+          // Example: `renameFlow.br` rewrites `<br />` flow nodes,
+          // `renameText.br` rewrites inline `Hello <br /> world`, and
+          // `renameFlow['> p:first-child']` only the scope's first child `<p>`.
+          const renameMap =
+            node.type === 'mdxJsxFlowElement' ? renameFlow : renameText;
+          const compiled =
+            renameMap && compiledSelectors.renameMaps.get(renameMap);
+          if (!compiled) return;
+
+          const renameTarget = selectJsxRenameTarget(compiled, node, context);
+          if (!renameTarget) return;
+
+          const sourceName = node.name;
+          const props = guard(node, () =>
+            applyRename(node, renameTarget, scopeElement, () =>
+              describeJsxSource(node, index ?? 0, scope)
+            )
+          );
+          sourceNames.set(node, sourceName);
+          report(
+            node,
+            scopedMdxRuleIds.rename,
+            `Renamed <${sourceName}> to <${renameTarget.component.name}>`,
+            {
+              source: sourceName,
+              ...describePlannedTarget(renameTarget, { element: node, props })
+            }
+          );
+          return;
+        }
+
+        // Step 5: Markdown nodes (e.g. `paragraph` → `<AlertParagraph>`).
+        if (!renameMarkdown || !parent || index === undefined) return;
+
+        const markdownTarget = selectMarkdownRenameTarget(node, renameMarkdown);
+        if (!markdownTarget) return;
+
+        // Markdown nodes have no authored component name, so the content check
+        // applies to the component they become.
+        const markdownTargetName = markdownTarget.component.name;
+        if (allowedNames && !allowedNames.has(markdownTargetName)) {
+          reportViolation(
+            file,
+            node,
+            scopedMdxRuleIds.notAllowed,
+            scopeElement.name,
+            `<${markdownTargetName}> (from ${node.type}) is not allowed in <${scopeElement.name}>`
+          );
+        }
+
+        const { element, props } = guard(node, () =>
+          applyMarkdownRename(
+            node,
+            index,
+            parent,
+            markdownTarget,
+            scopeElement,
+            scope
+          )
+        );
+        sourceNames.set(element, node.type);
+        report(
+          node,
+          scopedMdxRuleIds.renameMarkdown,
+          `Replaced ${node.type} with <${markdownTarget.component.name}>`,
+          {
+            source: node.type,
+            ...describePlannedTarget(markdownTarget, { element, props })
+          }
+        );
+
+        // The traversal continues into the *original* node's children, which the
+        // replacement shares unless they were cleared.
+        if (element.children.length === 0) return SKIP;
       }
+    );
 
-      // Step 4: Apply renames only for configured tag names.
-      // Example: `renameFlow.br` rewrites `<br />` flow nodes.
-      const renameTarget = renameFlow[element.name];
-      if (!renameTarget) return;
+    // Step 6: Structural edits, groups, then scope insertions.
+    applyStructuralEdits(edits);
+    groupFlowRuns(
+      scopeElement,
+      groupMembers,
+      (run, { target, ...wrapper }, memberCount) => {
+        const [first] = run;
+        if (!first) return;
 
-      applyFlowRename(element, renameTarget);
-    });
+        const source = sourceNames.get(first) ?? (first as MdxJsxElement).name;
+        report(
+          first,
+          scopedMdxRuleIds.group,
+          `Grouped ${memberCount} element(s) into <${target.component.name}>`,
+          {
+            source: source ?? first.type,
+            ...describePlannedTarget(target, wrapper)
+          }
+        );
+      }
+    );
+
+    const describeScopeSource = () =>
+      describeJsxSource(scopeElement, scopeIndex ?? 0, scope);
+    const toElement =
+      (position: 'start' | 'end') => (target: MdxRenameTarget) => {
+        const { element, props } = guard(scopeElement, () =>
+          createTargetElement(target, scopeElement, describeScopeSource)
+        );
+        report(
+          scopeElement,
+          scopedMdxRuleIds.insert,
+          `Inserted <${target.component.name}> at the ${position} of <${scopeElement.name}>`,
+          {
+            source: scopeElement.name,
+            ...describePlannedTarget(target, { element, props })
+          }
+        );
+        return element;
+      };
+
+    scopeElement.children.unshift(
+      ...(tables.prependToScope ?? []).map(toElement('start'))
+    );
+    scopeElement.children.push(
+      ...(tables.appendToScope ?? []).map(toElement('end'))
+    );
   };
+};
+
+// Root children that stay at the root when the document is wrapped in its
+// root scope: ESM must stay top-level, and frontmatter is not content.
+const rootOnlyNodeTypes: ReadonlySet<string> = new Set([
+  'mdxjsEsm',
+  'yaml',
+  'toml'
+]);
+
+/**
+ * Creates the root scope element of a document (see `rootScope`).
+ *
+ * - `wrap: false`: a detached element sharing the root's `children`, so the
+ *   scope visitor rewrites the document in place; explicit scopes in it are
+ *   nested scopes.
+ * - `wrap: true`: the root's content (all but `rootOnlyNodeTypes`) is moved
+ *   into the element, which becomes the root's last child and is then
+ *   visited like an authored scope.
+ *
+ * @param tree - The document root.
+ * @param scopeName - The root scope's name.
+ * @param wrap - Whether to insert the element into the tree.
+ * @returns The root scope element.
+ */
+function createRootScopeElement(
+  tree: Parent,
+  scopeName: string,
+  wrap: boolean
+): NamedMdxJsxFlowElement {
+  if (!wrap) {
+    return {
+      type: 'mdxJsxFlowElement',
+      name: scopeName,
+      attributes: [],
+      children: tree.children as MdxJsxFlowElement['children'],
+      position: tree.position
+    };
+  }
+
+  const rootOnly = tree.children.filter(child =>
+    rootOnlyNodeTypes.has(child.type)
+  );
+  const element: NamedMdxJsxFlowElement = {
+    type: 'mdxJsxFlowElement',
+    name: scopeName,
+    attributes: [],
+    children: tree.children.filter(
+      child => !rootOnlyNodeTypes.has(child.type)
+    ) as MdxJsxFlowElement['children']
+  };
+  tree.children = [...rootOnly, element];
+  return element;
+}
 
 /**
  * Registry-driven, component-scoped MDX JSX rewrites.
@@ -338,15 +1373,22 @@ const createScopeVisitor =
  * ─────────────────────────────────────────────────────────────────────────────
  *
  * 1) Outer traversal (tree-level scope discovery)
- * - `visit(tree, shouldProcessScope(registry), visitor)` walks the full tree to
- *   locate *scope roots*: MDX JSX **flow** elements whose `name` appears in the
- *   registry and declares `mdxTransform.renameFlow`.
+ * - `visit(tree, ...)` walks the full tree (content ignored by comment
+ *   directives aside) with the `shouldProcessScope(registry)` test to locate
+ *   *scope roots*: MDX JSX **flow** elements whose `name` appears in the
+ *   registry and declares `mdxTransform.renameFlow` or
+ *   `mdxTransform.renameMarkdown`.
  *
  * 2) Inner traversal (scope-local rewrites)
  * - For each scope root, a second `visit(scopeElement, ...)` walks only that
  *   scope’s subtree and applies the configured rewrites:
- *   - rename matching MDX JSX **flow** elements
+ *   - rename matching MDX JSX **flow** elements (`renameFlow`)
+ *   - rename matching MDX JSX **text** elements (`renameText`)
+ *   - replace matching Markdown nodes with JSX elements (`renameMarkdown`)
  *   - replace/emit props on the renamed element
+ *   - wrap, unwrap, remove or group matching flow elements (`wrapFlow`,
+ *     `unwrapFlow`, `removeFlow`, `groupFlow`) and insert elements at the start / end of
+ *     the scope (`prependToScope`, `appendToScope`)
  *
  * ─────────────────────────────────────────────────────────────────────────────
  * Scope boundaries (no cross-scope traversal)
@@ -355,15 +1397,17 @@ const createScopeVisitor =
  * Nested configured scopes are treated as boundaries:
  * - If the inner traversal encounters another configured scope element, it returns
  *   `SKIP` so that rewrites do not cross into the nested scope subtree.
+ * - A rule with `cascade: "inherit" | "merge"` hands its tables to the nested
+ *   scope instead, which applies them combined with its own (see
+ *   `MdxCascadeMode` and `cascadeScopeTables`).
  *
  * ─────────────────────────────────────────────────────────────────────────────
  * Flow vs Text (Inline) in MDX
  * ─────────────────────────────────────────────────────────────────────────────
  *
  * Summary:
- * 1) Rewrites MDX JSX **flow** elements (`MdxJsxFlowElement`) inside configured
- *    scope components.
- * 2) Does **not** rewrite MDX JSX **text/inline** elements (`MdxJsxTextElement`).
+ * 1) `renameFlow` rewrites MDX JSX **flow** elements (`MdxJsxFlowElement`).
+ * 2) `renameText` rewrites MDX JSX **text/inline** elements (`MdxJsxTextElement`).
  *
  * MDX represents JSX in two distinct node kinds:
  *
@@ -380,7 +1424,7 @@ const createScopeVisitor =
  *        Some text
  *      </div>
  *
- *    ✅ Handled by this plugin (subject to scope + registry rules).
+ *    ✅ Handled by `renameFlow` (subject to scope + registry rules).
  *
  * 2) `MdxJsxTextElement` (inline JSX)
  *    - Occurs inside phrasing content (within a paragraph / inline context).
@@ -392,12 +1436,13 @@ const createScopeVisitor =
  *      // Inline JSX inside a paragraph tag:
  *      <p>Hello<br />world</p>
  *
- *    ❌ Not handled by this plugin (intentionally).
+ *    ✅ Handled by `renameText` (subject to scope + registry rules).
  *
- * Rationale for flow-only:
- * - These transforms are intended for list-level / block-level rewrites (e.g.
+ * Why two separate maps:
+ * - Flow rewrites are intended for list-level / block-level rewrites (e.g.
  *   turning standalone `<br />` blocks into a normalized blank-line component).
- * - Inline `<br />` participates in phrasing layout and should remain untouched.
+ * - Inline `<br />` participates in phrasing layout and usually needs a
+ *   different replacement (or none), so it is opted into explicitly.
  *
  * ─────────────────────────────────────────────────────────────────────────────
  * Paragraphs in MDX: JSX `<p>` vs Markdown paragraph nodes
@@ -426,20 +1471,324 @@ const createScopeVisitor =
  *    - “Hello world” becomes an mdast `paragraph` node (`type: "paragraph"`).
  *    - This is NOT an `MdxJsxFlowElement` named `"p"`.
  *
- * ⚠️ Limitation (by design):
- * - `renameFlow` rewrites only MDX JSX **flow** elements (`MdxJsxFlowElement`).
- * - It does not rewrite Markdown paragraph nodes (`type: "paragraph"`), even
- *   though they eventually render to `<p>` at HTML/React output time.
+ * Handling:
+ * - `renameFlow` rewrites MDX JSX **flow** elements (`MdxJsxFlowElement`), so it
+ *   only sees case 1.
+ * - `renameMarkdown` rewrites Markdown-native nodes (case 2), keyed by mdast
+ *   node type (`paragraph`, `heading`, `list`, `blockquote`, `code`, `image`,
+ *   `thematicBreak`, directives) and optionally narrowed by node fields
+ *   (e.g. `heading` with `depth: 2`, `code` with `lang: "ts"`).
+ *
+ *    renameMarkdown: { paragraph: { component: { name: "MessageParagraph" } } }
+ *
+ *    <TimelineIngestor>
+ *      Hello world
+ *    </TimelineIngestor>
+ *
+ *    → <MessageParagraph>Hello world</MessageParagraph>
+ *
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Registry validation
+ * ─────────────────────────────────────────────────────────────────────────────
+ *
+ * The registry is checked once, when the plugin is created (see
+ * `validateRegistry`). Problems are reported as warnings on every processed
+ * file (`scoped-mdx:registry`), or thrown with `options.onInvalid: "throw"`;
+ * `options.componentNames` enables the unknown target check.
+ *
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Used components manifest
+ * ─────────────────────────────────────────────────────────────────────────────
+ *
+ * After all scopes are rewritten, the final tree's JSX element names are
+ * stored on `file.data.scopedMdx.usedComponents` (see `collectUsedComponents`)
+ * and, with `options.exportUsedComponents`, exported from the compiled module:
+ *
+ *    export const scopedComponents = ["MessageParagraph", "TimelineIngestor"];
+ *
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Report mode
+ * ─────────────────────────────────────────────────────────────────────────────
+ *
+ * With `options.mode: "report"` the rewrites run on a copy of the tree: the
+ * compiled output is unchanged, and `file.data.scopedMdx.plan` lists what
+ * apply mode would do (see `ScopedMdxPlannedRewrite`). Messages are reported
+ * in both modes.
+ *
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Content contracts and file filters
+ * ─────────────────────────────────────────────────────────────────────────────
+ *
+ * `options.strict` fails the file on components outside
+ * `options.componentNames`, and `options.allowedInScope` warns about elements
+ * a scope does not list (both on authored names, see `ScopeContentChecks`).
+ * `options.sandbox` strips expressions, unsafe attributes and unknown
+ * elements from untrusted scopes first (see `sanitizeSandboxScope`).
+ * `options.includeFiles` / `options.excludeFiles` select the files whose
+ * scopes are processed (see `createFileFilter`).
+ *
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Root scope
+ * ─────────────────────────────────────────────────────────────────────────────
+ *
+ * `options.rootScope` (or a file's frontmatter `scopedMdx.scope`, see
+ * `readScopedMdxFrontmatter`) applies a scope to the whole document without
+ * an authored `<ArticleScope>`; with `options.wrapRootScope` the content is
+ * also wrapped in that element (see `createRootScopeElement`).
+ *
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Opaque components
+ * ─────────────────────────────────────────────────────────────────────────────
+ *
+ * Components listed in `options.opaqueComponents` (e.g. `<Raw>`,
+ * `<CodeSample>`) are boundaries like nested scopes, without rules of their
+ * own: no enclosing scope rewrites them or anything inside them.
+ *
+ *    <Callout>
+ *      <CodeSample><p>Shown as authored</p></CodeSample>
+ *    </Callout>
+ *
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Document controls
+ * ─────────────────────────────────────────────────────────────────────────────
+ *
+ * A file's frontmatter `scopedMdx.disable` / `scopedMdx.only` turn rewrites
+ * off or on by scope or target name (see `createScopeTablesFilter`). Comment
+ * directives exclude authored content (see `collectIgnoredNodes`):
+ *
+ *    {/* scoped-mdx-ignore-next *\/}
+ *    <p>Shown as authored</p>
+ *
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Directives
+ * ─────────────────────────────────────────────────────────────────────────────
+ *
+ * `remark-directive` container and leaf directives named like a scope (or
+ * mapped by `options.directiveScopes`) become that scope's element before
+ * anything else runs (see `convertDirectiveScopes`). Inside scopes, directives
+ * are `renameMarkdown` sources like other mdast nodes (`leafDirective` with
+ * `match: { name: "youtube" }`). A container's `[label]` paragraph is never
+ * rewritten.
+ *
+ * ─────────────────────────────────────────────────────────────────────────────
+ * Diagnostics
+ * ─────────────────────────────────────────────────────────────────────────────
+ *
+ * Each rewrite and skipped boundary is an info message on the file, placed
+ * at the source node, with a stable `ruleId` (see `scopedMdxRuleIds`) and the
+ * scope name in the reason:
+ *
+ *    3:3-3:15: Renamed <p> to <MessageParagraph> (scope "TimelineIngestor")
+ *
+ * A target element that cannot be built (e.g. a prop `valueToEstree` rejects)
+ * fails the file with `scoped-mdx:serialize` at the source node.
  */
-export const remarkScopedMdx: Plugin<[ScopedMdxTransformRegistry], Parent> = (
-  registry: ScopedMdxTransformRegistry
+export const remarkScopedMdx: Plugin<
+  [ScopedMdxTransformRegistry, ScopedMdxPluginOptions?],
+  Parent
+> = (
+  registry: ScopedMdxTransformRegistry,
+  options: ScopedMdxPluginOptions = {}
 ) => {
+  // Registry problems are thrown before anything is compiled, or reported on
+  // every processed file.
+  const problems = validateRegistry(registry, {
+    componentNames: options.componentNames
+  });
+  if (problems.length > 0 && options.onInvalid === 'throw') {
+    const messages = problems.map(problem => problem.message);
+    throw new Error(`Invalid scoped MDX registry:\n- ${messages.join('\n- ')}`);
+  }
+
   const scopeComponentNames = new Set(Object.keys(registry));
+  const opaqueComponentNames = new Set(options.opaqueComponents);
+  for (const name of opaqueComponentNames) {
+    if (scopeComponentNames.has(name)) {
+      throw new Error(`opaqueComponents: "${name}" is a configured scope`);
+    }
+  }
+
+  // Content checks and file filters are set up once per plugin instance.
+  const checks: ScopeContentChecks = {
+    componentNames: new Set(options.componentNames),
+    strict: options.strict ?? false,
+    allowedInScope: toScopeOptionMap(
+      registry,
+      'allowedInScope',
+      options.allowedInScope,
+      names => new Set(names)
+    ),
+    sandbox: toScopeOptionMap(registry, 'sandbox', options.sandbox, sandbox =>
+      sandbox === true ? {} : sandbox
+    )
+  };
+  if ((checks.strict || checks.sandbox.size > 0) && !options.componentNames) {
+    throw new Error('`strict` and `sandbox` require `componentNames`');
+  }
+  const isIncluded = createFileFilter(
+    options.includeFiles,
+    options.excludeFiles
+  );
+  const isScope = (name: string): boolean => {
+    const rule = Object.hasOwn(registry, name) ? registry[name] : undefined;
+    return rule !== undefined && isScopeRuleConfigured(rule);
+  };
+  if (options.rootScope !== undefined && !isScope(options.rootScope)) {
+    throw new Error(
+      `rootScope: "${options.rootScope}" is not a configured scope`
+    );
+  }
+  const readFrontmatter =
+    options.readFrontmatter ?? ((file: VFile) => file.data.matter);
+  const directiveScopes = options.directiveScopes ?? {};
+  for (const [directiveName, scopeName] of Object.entries(directiveScopes)) {
+    if (!isScope(scopeName)) {
+      throw new Error(
+        `directiveScopes: "${directiveName}" maps to "${scopeName}", which is not a configured scope`
+      );
+    }
+  }
+  const resolveDirectiveScope = (name: string): string | undefined =>
+    Object.hasOwn(directiveScopes, name)
+      ? directiveScopes[name]
+      : isScope(name)
+        ? name
+        : undefined;
+
+  // Selector keys are parsed here, once per plugin instance.
+  const compiledSelectors = compileRegistrySelectors(registry);
+
+  const exportName =
+    options.exportUsedComponents === true
+      ? DEFAULT_USED_COMPONENTS_EXPORT
+      : options.exportUsedComponents || undefined;
+
+  const transformer: Transformer<Parent> = (tree, file) => {
+    // Report mode rewrites a copy, so the plan matches what apply mode would
+    // do (including scopes reached through earlier rewrites) while `tree`
+    // stays unchanged.
+    const plan: ScopedMdxPlannedRewrite[] | undefined =
+      options.mode === 'report' ? [] : undefined;
+    if (isIncluded(file)) {
+      reportRegistryProblems(file, problems);
+
+      let frontmatter: ScopedMdxFrontmatter;
+      try {
+        frontmatter = readScopedMdxFrontmatter(
+          readFrontmatter(file) ?? readYamlFrontmatter(tree)
+        );
+      } catch (error) {
+        return failFrontmatter(
+          file,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
 
-  const visitor = createScopeVisitor(registry, scopeComponentNames);
+      const target = plan ? structuredClone(tree) : tree;
 
-  const transformer: Transformer<Parent> = tree => {
-    visit(tree, shouldProcessScope(registry), visitor);
+      // Directive scopes become scope elements first, so everything below
+      // (comment directives, the root scope, nesting) sees them as such.
+      convertDirectiveScopes(
+        target,
+        resolveDirectiveScope,
+        (directive, element) => {
+          const scopeName = element.name ?? '';
+          const message = `Renamed ${describeDirective(directive)} to <${scopeName}>`;
+          reportRewrite(
+            file,
+            directive,
+            scopedMdxRuleIds.rename,
+            scopeName,
+            message
+          );
+          plan?.push({
+            ruleId: scopedMdxRuleIds.rename,
+            source: directive.type,
+            target: scopeName,
+            scope: scopeName,
+            position: directive.position,
+            props: describeResolvedProps(element.attributes, undefined),
+            childrenPolicy: 'preserve',
+            message
+          });
+        }
+      );
+
+      // Comment directives are read before any rewrite moves the nodes they
+      // address.
+      const controls: DocumentControls = {
+        filterTables: createScopeTablesFilter(frontmatter),
+        ignoredNodes: collectIgnoredNodes(target)
+      };
+      const visitor = createScopeVisitor(
+        registry,
+        scopeComponentNames,
+        opaqueComponentNames,
+        compiledSelectors,
+        checks,
+        controls,
+        file,
+        plan
+      );
+
+      // The root scope runs first, so explicit scopes in the document are
+      // nested scopes (and receive its cascaded tables).
+      const rootScope = frontmatter.scope ?? options.rootScope;
+      if (rootScope !== undefined) {
+        if (!isScope(rootScope)) {
+          failFrontmatter(
+            file,
+            `Frontmatter \`scopedMdx.scope\`: "${rootScope}" is not a configured scope`
+          );
+        }
+
+        const wrap = options.wrapRootScope ?? false;
+        const rootElement = createRootScopeElement(target, rootScope, wrap);
+        if (wrap) {
+          const message = `Wrapped document in <${rootScope}>`;
+          reportRewrite(
+            file,
+            target,
+            scopedMdxRuleIds.wrap,
+            rootScope,
+            message
+          );
+          plan?.push({
+            ruleId: scopedMdxRuleIds.wrap,
+            source: 'root',
+            target: rootScope,
+            scope: rootScope,
+            position: target.position,
+            props: {},
+            childrenPolicy: 'preserve',
+            message
+          });
+        } else {
+          visitor(rootElement, undefined);
+          target.children = rootElement.children;
+        }
+      }
+
+      // Scopes inside ignored content are left as authored.
+      const isScopeRoot = shouldProcessScope(registry);
+      visit(target, (node: Node, index: number | undefined) => {
+        if (controls.ignoredNodes.has(node)) return SKIP;
+        if (isScopeRoot(node)) visitor(node, index);
+      });
+    }
+
+    const usedComponents = collectUsedComponents(tree);
+    file.data.scopedMdx = {
+      ...file.data.scopedMdx,
+      usedComponents,
+      ...(plan && { plan })
+    };
+
+    if (exportName) {
+      tree.children.push(
+        createUsedComponentsExport(exportName, usedComponents)
+      );
+    }
   };
 
   return transformer;
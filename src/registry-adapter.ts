@@ -1,4 +1,10 @@
-import { MdxTransformRule, ScopedMdxTransformRegistry } from './types';
+import {
+  MdxRenameTarget,
+  MdxTransformRule,
+  ScopedMdxTransformRegistry
+} from './types';
+import { isRenameCandidateList } from './rename-candidates';
+import { flattenTransformRules } from './rule-extends';
 
 /**
  * Defines the structural interface required to read MDX transform rules from a registry.
@@ -9,16 +15,18 @@ import { MdxTransformRule, ScopedMdxTransformRegistry } from './types';
  * 2. Usage Context: Serves as the source type for:
  *    - `deriveMdxTransformRegistry`:
  *      Generates configuration for the scoped Remark plugin.
+ *    - `deriveOpaqueComponentNames`:
+ *      Lists the components the plugin must not rewrite inside.
  *    - `expandHydratedComponentNames`:
  *      Identifies components introduced by transform rules to ensure runtime
  *      availability.
  * 3. Compatibility:
  *    Uses structural typing to accept complex registry objects while
- *    selectively accessing only the `mdxTransform` metadata.
+ *    selectively accessing only the `mdxTransform` and `opaque` metadata.
  */
 export type TransformAwareRegistry = Record<
   string,
-  { mdxTransform?: MdxTransformRule }
+  { mdxTransform?: MdxTransformRule; opaque?: boolean }
 >;
 
 /**
@@ -37,6 +45,8 @@ export type TransformAwareRegistry = Record<
  * Inclusion rule:
  * - Only component definitions that explicitly declare `mdxTransform` are included.
  * - Definitions without `mdxTransform` are ignored.
+ * - Rules that `extends` another entry's rule are included flattened (see
+ *   `flattenTransformRules`), so the result is plain rule data.
  *
  * Where the rules come from:
  * - The stored `mdxTransform` rule is typically produced by a typed builder API
@@ -53,50 +63,145 @@ export type TransformAwareRegistry = Record<
  *
  * @param componentDefinitions - Component registry keyed by component name.
  * @returns A scoped transform registry keyed by scope component name.
+ * @throws When a rule extends an entry without a rule, or `extends` forms a cycle.
  */
 export function deriveMdxTransformRegistry(
   componentDefinitions: TransformAwareRegistry
 ): ScopedMdxTransformRegistry {
-  const registry: ScopedMdxTransformRegistry = {};
+  return readTransformRules(componentDefinitions);
+}
 
-  const componentEntries = Object.entries(componentDefinitions);
+/**
+ * Reads the `mdxTransform` rules of a component registry (entries without
+ * one are left out), with `extends` flattened.
+ */
+function readTransformRules(
+  componentDefinitions: TransformAwareRegistry
+): Record<string, MdxTransformRule> {
+  const rules: Record<string, MdxTransformRule | undefined> = {};
 
   // Iterate over component definitions keyed by component name.
-  for (const [componentName, componentDefinition] of componentEntries) {
-    const rule = componentDefinition.mdxTransform;
-    if (rule) {
-      registry[componentName] = rule;
-    }
+  for (const [componentName, componentDefinition] of Object.entries(
+    componentDefinitions
+  )) {
+    rules[componentName] = componentDefinition.mdxTransform;
   }
 
-  return registry;
+  return flattenTransformRules(rules);
 }
 
 /**
- * Adds component identifiers referenced by a `renameFlow` rule to an
- * accumulator.
+ * Lists the components of a registry whose entries are marked `opaque: true`,
+ * for the scoped remark plugin's `opaqueComponents` option.
+ *
+ * Context:
+ * - Some components render their children verbatim or as source
+ *   (e.g. `<Raw>`, `<CodeSample>`, `<LiveEditor>`). Rewrites from an
+ *   enclosing scope would change what they show, so their content is left
+ *   as authored.
+ * - Unlike scopes, opaque components have no rules of their own.
+ *
+ * Example:
+ * ```ts
+ * const registry = {
+ *   Callout: defineEntry({ component: Callout, mdxTransform: calloutRule }),
+ *   CodeSample: defineEntry({ component: CodeSample, opaque: true })
+ * };
+ * deriveOpaqueComponentNames(registry); // -> ['CodeSample']
+ * ```
+ *
+ * @param componentDefinitions - Component registry keyed by component name.
+ * @returns The names of opaque components, in registry order.
+ */
+export function deriveOpaqueComponentNames(
+  componentDefinitions: TransformAwareRegistry
+): string[] {
+  return Object.entries(componentDefinitions)
+    .filter(([, componentDefinition]) => componentDefinition.opaque === true)
+    .map(([componentName]) => componentName);
+}
+
+/**
+ * Adds component identifiers referenced by a `renameFlow` / `renameText` /
+ * `wrapFlow` / `groupFlow` rule to an accumulator.
  *
  * Purpose:
  * - Scoped remark transforms can introduce JSX identifiers that do not exist in the
  *   original MDX source (because tags are rewritten during the remark stage).
- * - This helper extracts the **target component names** from a `renameFlow` map and
- *   adds them to `expanded`, ensuring the runtime component map includes them.
+ * - This helper extracts the **target component names** from a tag-keyed rename
+ *   map and adds them to `expanded`, ensuring the runtime component map includes
+ *   them.
  *
  * Behavior:
- * - No-op when `renameFlow` is `undefined`.
+ * - No-op when the rename map is `undefined`.
+ * - Candidate lists contribute every candidate's target, since the winner is
+ *   only known per source element at compile time.
  *
  * @param expanded - Accumulator of component identifiers required at runtime.
- * @param renameFlow - Optional mapping of source flow tag name → rename target.
+ * @param renameMap - Optional mapping of source tag name → rename target(s).
  */
-function addRenameFlowTargets(
+function addRenameTargets(
   expanded: Set<string>,
-  renameFlow: MdxTransformRule['renameFlow']
+  renameMap: MdxTransformRule['renameFlow']
 ): void {
-  if (!renameFlow) return;
+  if (!renameMap) return;
+
+  const renameEntries = Object.values(renameMap);
 
-  const renameTargets = Object.values(renameFlow);
+  for (const entry of renameEntries) {
+    const targets: ReadonlyArray<MdxRenameTarget> = isRenameCandidateList(entry)
+      ? entry.map(candidate => candidate.to)
+      : [entry];
+
+    for (const target of targets) {
+      expanded.add(target.component.name);
+    }
+  }
+}
+
+/**
+ * Adds component identifiers referenced by a `renameMarkdown` rule to an
+ * accumulator.
+ *
+ * Behavior:
+ * - No-op when `renameMarkdown` is `undefined`.
+ * - Entries can hold a single target or an ordered list of narrowed targets;
+ *   every listed target can be selected at compile time, so all are added.
+ *
+ * @param expanded - Accumulator of component identifiers required at runtime.
+ * @param renameMarkdown - Optional mapping of mdast node type → rename target(s).
+ */
+function addRenameMarkdownTargets(
+  expanded: Set<string>,
+  renameMarkdown: MdxTransformRule['renameMarkdown']
+): void {
+  if (!renameMarkdown) return;
+
+  const renameEntries = Object.values(renameMarkdown);
+
+  for (const entry of renameEntries) {
+    const targets: ReadonlyArray<MdxRenameTarget> = Array.isArray(entry)
+      ? entry
+      : [entry];
+
+    for (const target of targets) {
+      expanded.add(target.component.name);
+    }
+  }
+}
 
-  for (const target of renameTargets) {
+/**
+ * Adds component identifiers inserted by `prependToScope` / `appendToScope`
+ * to an accumulator (no-op when the list is `undefined`).
+ *
+ * @param expanded - Accumulator of component identifiers required at runtime.
+ * @param targets - Optional list of inserted targets.
+ */
+function addInsertedTargets(
+  expanded: Set<string>,
+  targets: MdxTransformRule['prependToScope']
+): void {
+  for (const target of targets ?? []) {
     expanded.add(target.component.name);
   }
 }
@@ -109,7 +214,9 @@ function addRenameFlowTargets(
  * - A set of “hydrated” component names is commonly computed from the original
  *   MDX source (before remark transforms run) and used to build a runtime
  *   component map.
- * - Scoped transforms (`renameFlow`) can rewrite JSX tags and thereby introduce
+ * - Scoped transforms (`renameFlow`, `renameText`, `renameMarkdown`,
+ *   `wrapFlow`, `groupFlow`, `prependToScope`, `appendToScope`) can rewrite
+ *   JSX tags and Markdown nodes or insert elements, and thereby introduce
  *   component identifiers that were not present in the original set.
  * - If the runtime component map is built only from the originally discovered
  *   names, the renderer may encounter an introduced identifier that is missing
@@ -137,8 +244,13 @@ function addRenameFlowTargets(
  * - Original discovery (pre-transform) sees: `Scope`, `br`, `p`
  * - Runtime rendering also requires: `CustomBlankLine`, `CustomParagraph`
  *
- * This helper adds any **target component names** referenced by `renameFlow` to
- * the returned set.
+ * This helper adds any **target component names** referenced by those tables
+ * (including the tables of scope `variants`) to the returned set, transitively:
+ * targets that are scopes themselves contribute their own targets.
+ * `unwrapFlow` / `removeFlow` only drop elements and add nothing.
+ *
+ * For the chain that added each name, and for names missing from the
+ * registry, use `resolveHydratedComponentNames`.
  *
  * Where the rules come from:
  * - The stored `mdxTransform` rule is typically produced by a typed builder API
@@ -155,32 +267,133 @@ export function expandHydratedComponentNames(
   componentNames: ReadonlySet<string>,
   componentDefinitions: TransformAwareRegistry
 ): Set<string> {
+  return resolveHydratedComponentNames(componentNames, componentDefinitions)
+    .names;
+}
+
+/**
+ * Diagnostics of a hydrated component name expansion.
+ */
+export type HydratedComponentDiagnostics = {
+  /**
+   * Names in the expanded set without a registry entry (original or
+   * introduced), in discovery order. Rendering such a name fails unless the
+   * app provides it elsewhere (e.g. intrinsic tags or a custom MDXProvider).
+   */
+  missing: string[];
+  /**
+   * How each name entered the set: the shortest chain of rules from an
+   * originally hydrated name, e.g. `['Timeline', 'MessageGroup',
+   * 'MessageParagraph']`. Original names map to `[name]`.
+   */
+  paths: Record<string, string[]>;
+};
+
+/**
+ * Result of `resolveHydratedComponentNames`.
+ */
+export type HydratedComponentResolution = {
+  names: Set<string>;
+  diagnostics: HydratedComponentDiagnostics;
+};
+
+/**
+ * Lists the component identifiers a rule can introduce: targets of every
+ * table of the default rule and of every variant (which variant applies
+ * depends on scope attributes, so all of them may introduce names).
+ */
+function collectIntroducedNames(rule: MdxTransformRule): Set<string> {
+  const introduced = new Set<string>();
+
+  for (const tables of [rule, ...(rule.variants ?? []).map(v => v.rule)]) {
+    addRenameTargets(introduced, tables.renameFlow);
+    addRenameTargets(introduced, tables.renameText);
+    addRenameMarkdownTargets(introduced, tables.renameMarkdown);
+    addRenameTargets(introduced, tables.wrapFlow);
+    addRenameTargets(introduced, tables.groupFlow);
+    addInsertedTargets(introduced, tables.prependToScope);
+    addInsertedTargets(introduced, tables.appendToScope);
+  }
+
+  return introduced;
+}
+
+/**
+ * Expands hydrated component names to their transitive closure over the
+ * registry's transform rules, with diagnostics.
+ *
+ * Why transitive:
+ * - A rename target can itself be a scope with rules (e.g. `Timeline` renames
+ *   `section` to `MessageGroup`, whose own rule renames `p` to
+ *   `MessageParagraph`). Its targets are needed too, so names are expanded
+ *   until no rule introduces a new one (a fixpoint; cycles end there).
+ *
+ * Traversal:
+ * - Breadth-first from the original names, so `paths` holds the shortest
+ *   chain to each introduced name.
+ * - `componentNames` can include identifiers that are not in the registry
+ *   (e.g. intrinsic JSX tags); they expand to nothing and are listed in
+ *   `missing`, as are introduced names without a registry entry.
+ * - Rules are read flattened, so a rule that `extends` another contributes
+ *   the targets it inherits.
+ *
+ * Example:
+ * ```ts
+ * const { names, diagnostics } = resolveHydratedComponentNames(
+ *   new Set(['Timeline']),
+ *   componentDefinitions
+ * );
+ * diagnostics.paths.MessageParagraph;
+ * // -> ['Timeline', 'MessageGroup', 'MessageParagraph']
+ * ```
+ *
+ * @param componentNames - The component identifiers selected for hydration.
+ * @param componentDefinitions - Full component registry keyed by component name.
+ * @returns The expanded names (a new set) and their diagnostics.
+ * @throws When `extends` cannot be resolved (see `deriveMdxTransformRegistry`).
+ */
+export function resolveHydratedComponentNames(
+  componentNames: ReadonlySet<string>,
+  componentDefinitions: TransformAwareRegistry
+): HydratedComponentResolution {
+  const paths: Record<string, string[]> = {};
+  const missing: string[] = [];
+  const rules = readTransformRules(componentDefinitions);
+
   // Create a new set so the input set is never mutated.
-  const expanded = new Set(componentNames);
-
-  for (const componentName of componentNames) {
-    const componentDefinition = componentDefinitions[componentName];
-
-    /**
-     * Early-continue guard:
-     * - `componentNames` can include identifiers that are not present in the
-     *   registry (e.g. unregistered/intrinsic JSX tags, or names from upstream
-     *   discovery that you intentionally do not provide as components).
-     * - Only registry entries that declare `mdxTransform` can introduce
-     *   additional identifiers via `renameFlow`, so entries without a rule do
-     *   not participate in expansion.
-     *
-     * Skipping early avoids touching `mdxTransform` / `renameFlow` when the
-     * registry entry is missing or when it declares no transform rule, and
-     * keeps the “no rule → no expansion” behavior explicit.
-     */
-    if (!componentDefinition) continue;
-
-    const rule = componentDefinition.mdxTransform;
+  const names = new Set(componentNames);
+  const queue = [...componentNames];
+  for (const name of queue) paths[name] = [name];
+
+  // `queue` grows while it is iterated (breadth-first worklist).
+  for (const componentName of queue) {
+    const componentDefinition = Object.hasOwn(
+      componentDefinitions,
+      componentName
+    )
+      ? componentDefinitions[componentName]
+      : undefined;
+
+    if (!componentDefinition) {
+      missing.push(componentName);
+      continue;
+    }
+
+    // Entries without a rule do not participate in expansion.
+    const rule = Object.hasOwn(rules, componentName)
+      ? rules[componentName]
+      : undefined;
     if (!rule) continue;
 
-    addRenameFlowTargets(expanded, rule.renameFlow);
+    const path = paths[componentName] ?? [componentName];
+    for (const introduced of collectIntroducedNames(rule)) {
+      if (names.has(introduced)) continue;
+
+      names.add(introduced);
+      paths[introduced] = [...path, introduced];
+      queue.push(introduced);
+    }
   }
 
-  return expanded;
+  return { names, diagnostics: { missing, paths } };
 }
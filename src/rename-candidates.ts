@@ -0,0 +1,97 @@
+import type {
+  MdxAttributePredicate,
+  MdxRenameCandidate,
+  MdxRenameMap,
+  MdxRenameTarget,
+  MdxSourceAttributeValue
+} from './types';
+
+type SourceAttributes = Readonly<Record<string, MdxSourceAttributeValue>>;
+
+/**
+ * Type guard: distinguishes a candidate list from a single rename target.
+ */
+export const isRenameCandidateList = (
+  entry: MdxRenameMap[string]
+): entry is ReadonlyArray<MdxRenameCandidate> => Array.isArray(entry);
+
+/**
+ * Checks one attribute predicate against the attribute's literal value
+ * (`undefined` when the attribute is not set or not literal).
+ *
+ * - Plain value → strict equality.
+ * - `RegExp` → `{ regex }`.
+ * - Operator object → every declared operator must hold.
+ * - `regex` tests `String(value)`; `search` is used so a `g` / `y` flag's
+ *   `lastIndex` state never leaks between elements.
+ */
+function matchesAttributePredicate(
+  value: MdxSourceAttributeValue | undefined,
+  predicate: MdxAttributePredicate
+): boolean {
+  if (typeof predicate !== 'object') return value === predicate;
+  if (predicate instanceof RegExp) {
+    return matchesAttributePredicate(value, { regex: predicate });
+  }
+
+  const { equals, exists, regex, oneOf } = predicate;
+
+  if (exists !== undefined && exists !== (value !== undefined)) return false;
+  if (equals !== undefined && value !== equals) return false;
+  if (
+    regex !== undefined &&
+    (value === undefined || String(value).search(regex) === -1)
+  ) {
+    return false;
+  }
+  if (oneOf !== undefined && (value === undefined || !oneOf.includes(value))) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Checks a candidate's `when` against the literal attributes of a source element.
+ *
+ * - No `when` (or `when: {}`) → always matches.
+ * - Otherwise every listed predicate must hold.
+ */
+function matchesRenameCandidate(
+  candidate: MdxRenameCandidate,
+  attributes: SourceAttributes
+): boolean {
+  if (!candidate.when) return true;
+
+  return Object.entries(candidate.when).every(([name, predicate]) =>
+    matchesAttributePredicate(
+      Object.hasOwn(attributes, name) ? attributes[name] : undefined,
+      predicate
+    )
+  );
+}
+
+/**
+ * Resolves the rename target for a source JSX element from a rename map entry.
+ *
+ * Resolution:
+ * - Single target → returned as-is (no attributes are read).
+ * - Candidate list → the `to` of the first candidate whose `when` holds, or
+ *   `undefined` when none does. Attributes are read lazily, once.
+ *
+ * @param entry - The rename map entry for the element's tag name.
+ * @param readAttributes - Reads the element's literal attributes.
+ * @returns The winning target, or `undefined` when the element is not renamed.
+ */
+export function selectRenameTarget(
+  entry: MdxRenameMap[string] | undefined,
+  readAttributes: () => SourceAttributes
+): MdxRenameTarget | undefined {
+  if (!entry) return undefined;
+  if (!isRenameCandidateList(entry)) return entry;
+
+  const attributes = readAttributes();
+
+  return entry.find(candidate => matchesRenameCandidate(candidate, attributes))
+    ?.to;
+}
@@ -0,0 +1,261 @@
+import type { Node } from 'unist';
+import type {
+  MdxJsxAttribute,
+  MdxJsxAttributeValueExpression,
+  MdxJsxExpressionAttribute,
+  MdxJsxFlowElement,
+  MdxJsxTextElement
+} from 'mdast-util-mdx-jsx';
+
+import type {
+  MdxPropValue,
+  MdxRenameSource,
+  MdxRenameTarget,
+  MdxSourceAttributeValue
+} from './types';
+import type { MarkdownRenameSource } from './markdown-rename';
+import { readDirectiveAttributes } from './directive-nodes';
+
+type SourceAttributes = Record<string, MdxSourceAttributeValue>;
+
+/**
+ * Reads the primitive value of a literal attribute expression.
+ *
+ * - `{2}`, `{"intro"}`, `{false}` → `2`, `"intro"`, `false`
+ * - `{-1}` → `-1`
+ * - Anything else (`{x}`, `{1 + 1}`, `{null}`) → `undefined`
+ */
+function readLiteralExpression(
+  expression: MdxJsxAttributeValueExpression
+): MdxSourceAttributeValue | undefined {
+  const body = expression.data?.estree?.body ?? [];
+  const statement = body.length === 1 ? body[0] : undefined;
+  if (statement?.type !== 'ExpressionStatement') return undefined;
+
+  const node = statement.expression;
+
+  if (node.type === 'Literal') {
+    const value = node.value;
+    return typeof value === 'string' ||
+      typeof value === 'number' ||
+      typeof value === 'boolean'
+      ? value
+      : undefined;
+  }
+
+  if (
+    node.type === 'UnaryExpression' &&
+    node.operator === '-' &&
+    node.argument.type === 'Literal' &&
+    typeof node.argument.value === 'number'
+  ) {
+    return -node.argument.value;
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads the literal attributes of an MDX JSX element.
+ *
+ * - `id="intro"` → `{ id: "intro" }`
+ * - `hidden` (boolean presence, `value: null`) → `{ hidden: true }`
+ * - `level={2}` / `open={false}` (literal expressions) → `{ level: 2, open: false }`
+ * - `id={x}` and `{...spread}` are skipped (their values are only known at runtime).
+ */
+export function readLiteralAttributes(
+  attributes: ReadonlyArray<MdxJsxAttribute | MdxJsxExpressionAttribute>
+): SourceAttributes {
+  const literal: SourceAttributes = {};
+
+  for (const attribute of attributes) {
+    if (attribute.type !== 'mdxJsxAttribute') continue;
+
+    if (attribute.value === null || attribute.value === undefined) {
+      literal[attribute.name] = true;
+    } else if (typeof attribute.value === 'string') {
+      literal[attribute.name] = attribute.value;
+    } else {
+      const value = readLiteralExpression(attribute.value);
+      if (value !== undefined) literal[attribute.name] = value;
+    }
+  }
+
+  return literal;
+}
+
+/**
+ * Describes the final attributes of a rewritten element as props (the
+ * `props` of a report mode plan entry), so source attributes kept by the
+ * attribute policy, inherited scope attributes and merged class names show up
+ * as emitted.
+ *
+ * - Literal attributes are read as by `readLiteralAttributes`.
+ * - Values serialized from `targetProps` that are not literals (objects,
+ *   arrays, …) are taken from `targetProps`.
+ * - Authored runtime values (`id={x}`) and spreads are left out.
+ */
+export function describeResolvedProps(
+  attributes: ReadonlyArray<MdxJsxAttribute | MdxJsxExpressionAttribute>,
+  targetProps: Readonly<Record<string, MdxPropValue>> | undefined
+): Record<string, MdxPropValue> {
+  const props: Record<string, MdxPropValue> = {};
+
+  for (const attribute of attributes) {
+    if (attribute.type !== 'mdxJsxAttribute') continue;
+
+    const { name, value } = attribute;
+    const literal = readLiteralAttributes([attribute])[name];
+    if (literal !== undefined) {
+      props[name] = literal;
+    } else if (
+      typeof value === 'object' &&
+      value?.value === '' &&
+      targetProps &&
+      Object.hasOwn(targetProps, name)
+    ) {
+      // Serialized by the plugin (see `toMdxAttribute`), not authored.
+      props[name] = targetProps[name];
+    } else {
+      delete props[name];
+    }
+  }
+
+  return props;
+}
+
+/**
+ * Reads the fields of a markdown node as source attributes.
+ *
+ * Only fields with a value are included (`lang: null` is omitted), so computed
+ * props can rely on `attributes.lang !== undefined`. Directives contribute
+ * their attributes.
+ */
+export function readMarkdownAttributes(
+  node: MarkdownRenameSource
+): SourceAttributes {
+  const fields: Record<string, MdxSourceAttributeValue | null | undefined> = {};
+
+  switch (node.type) {
+    case 'heading':
+      fields.depth = node.depth;
+      break;
+    case 'code':
+      fields.lang = node.lang;
+      fields.meta = node.meta;
+      break;
+    case 'list':
+      fields.ordered = node.ordered;
+      fields.start = node.start;
+      break;
+    case 'image':
+      fields.src = node.url;
+      fields.alt = node.alt;
+      fields.title = node.title;
+      break;
+    case 'containerDirective':
+    case 'leafDirective':
+    case 'textDirective':
+      Object.assign(fields, readDirectiveAttributes(node));
+      break;
+  }
+
+  const attributes: SourceAttributes = {};
+  for (const [field, value] of Object.entries(fields)) {
+    if (value !== null && value !== undefined) attributes[field] = value;
+  }
+
+  return attributes;
+}
+
+/**
+ * Concatenates the plain-text content of a node.
+ *
+ * Text-bearing nodes are `text`, `inlineCode` and `code`; everything else
+ * contributes its children. MDX expressions (`{value}`) are source code, not
+ * text, and are skipped.
+ */
+export function toPlainText(node: Node): string {
+  if (
+    node.type === 'text' ||
+    node.type === 'inlineCode' ||
+    node.type === 'code'
+  ) {
+    return (node as Node & { value: string }).value;
+  }
+
+  const children = (node as Node & { children?: Node[] }).children;
+  if (!children) return '';
+
+  return children.map(toPlainText).join('');
+}
+
+/**
+ * Describes a scope element for `MdxRenameSource.scope`.
+ */
+export function describeScope(scopeElement: {
+  name: string;
+  attributes: ReadonlyArray<MdxJsxAttribute | MdxJsxExpressionAttribute>;
+}): MdxRenameSource['scope'] {
+  return {
+    name: scopeElement.name,
+    attributes: readLiteralAttributes(scopeElement.attributes)
+  };
+}
+
+/**
+ * Describes a named MDX JSX element (flow or text) as a rename source.
+ *
+ * Must be called before the element is renamed, so `name` and `attributes`
+ * still reflect the authored source.
+ */
+export function describeJsxSource(
+  element: MdxJsxFlowElement | MdxJsxTextElement,
+  index: number,
+  scope: MdxRenameSource['scope']
+): MdxRenameSource {
+  return {
+    name: element.name ?? '',
+    attributes: readLiteralAttributes(element.attributes),
+    text: toPlainText(element),
+    index,
+    scope
+  };
+}
+
+/**
+ * Describes a markdown node as a rename source (`name` is the mdast node type).
+ */
+export function describeMarkdownSource(
+  node: MarkdownRenameSource,
+  index: number,
+  scope: MdxRenameSource['scope']
+): MdxRenameSource {
+  return {
+    name: node.type,
+    attributes: readMarkdownAttributes(node),
+    text: toPlainText(node),
+    index,
+    scope
+  };
+}
+
+/**
+ * Resolves a rename target's props to a plain props object.
+ *
+ * - Static `props` are returned as-is.
+ * - Computed `props` are called with the source description. The description
+ *   is built lazily (`describeSource`) so static targets never pay for it.
+ *
+ * @param target - The rename target being applied.
+ * @param describeSource - Builds the `MdxRenameSource` of the node being renamed.
+ * @returns The props to emit (or `undefined` when the target declares none).
+ */
+export function resolveTargetProps(
+  target: MdxRenameTarget,
+  describeSource: () => MdxRenameSource
+): Record<string, MdxPropValue> | undefined {
+  const props = target.component.props;
+
+  return typeof props === 'function' ? props(describeSource()) : props;
+}
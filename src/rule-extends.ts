@@ -0,0 +1,172 @@
+import type {
+  MdxRenameTarget,
+  MdxRuleOmissions,
+  MdxTransformRule
+} from './types';
+
+/**
+ * Combines a keyed table of the base with the extending rule's: base entries
+ * not omitted, then the own entries (an own key replaces the base's).
+ */
+function extendKeyedTable<Table extends object>(
+  base: Table | undefined,
+  own: Table | undefined,
+  omitted: ReadonlyArray<string> = []
+): Table | undefined {
+  if (!base) return own;
+
+  const kept = Object.entries(base).filter(([key]) => !omitted.includes(key));
+  return { ...Object.fromEntries(kept), ...own } as Table;
+}
+
+/**
+ * Combines a list of the base with the extending rule's: base items not
+ * omitted (`omitKey` names an item), then the own items not already listed.
+ */
+function extendList<Item>(
+  base: ReadonlyArray<Item> | undefined,
+  own: ReadonlyArray<Item> | undefined,
+  omitted: ReadonlyArray<string> = [],
+  omitKey: (item: Item) => string
+): ReadonlyArray<Item> | undefined {
+  if (!base) return own;
+
+  const kept = base.filter(item => !omitted.includes(omitKey(item)));
+  return [...kept, ...(own ?? []).filter(item => !kept.includes(item))];
+}
+
+const selectorOf = (selector: string): string => selector;
+
+const targetNameOf = (target: MdxRenameTarget): string => target.component.name;
+
+/**
+ * Flattens one rule onto its (already flat) base. `extends` and `omit` are
+ * consumed; tables neither rule declares stay absent, so the result is a
+ * scope exactly when the base or the rule is one (see `isScopeRuleConfigured`).
+ */
+function extendRule(
+  base: MdxTransformRule,
+  rule: MdxTransformRule
+): MdxTransformRule {
+  const omit: MdxRuleOmissions = rule.omit ?? {};
+
+  const extended: MdxTransformRule = {
+    renameFlow: extendKeyedTable(
+      base.renameFlow,
+      rule.renameFlow,
+      omit.renameFlow
+    ),
+    renameText: extendKeyedTable(
+      base.renameText,
+      rule.renameText,
+      omit.renameText
+    ),
+    renameMarkdown: extendKeyedTable(
+      base.renameMarkdown,
+      rule.renameMarkdown,
+      omit.renameMarkdown
+    ),
+    wrapFlow: extendKeyedTable(base.wrapFlow, rule.wrapFlow, omit.wrapFlow),
+    unwrapFlow: extendList(
+      base.unwrapFlow,
+      rule.unwrapFlow,
+      omit.unwrapFlow,
+      selectorOf
+    ),
+    removeFlow: extendList(
+      base.removeFlow,
+      rule.removeFlow,
+      omit.removeFlow,
+      selectorOf
+    ),
+    groupFlow: extendKeyedTable(base.groupFlow, rule.groupFlow, omit.groupFlow),
+    prependToScope: extendList(
+      base.prependToScope,
+      rule.prependToScope,
+      omit.prependToScope,
+      targetNameOf
+    ),
+    appendToScope: extendList(
+      base.appendToScope,
+      rule.appendToScope,
+      omit.appendToScope,
+      targetNameOf
+    ),
+    variants:
+      base.variants || rule.variants
+        ? [...(rule.variants ?? []), ...(base.variants ?? [])]
+        : undefined,
+    cascade: rule.cascade ?? base.cascade
+  };
+
+  // Plain data: no `undefined` own properties (scope detection is
+  // presence-based).
+  return Object.fromEntries(
+    Object.entries(extended).filter(([, value]) => value !== undefined)
+  );
+}
+
+/**
+ * Resolves `extends` across a map of rules (component name → rule) into flat
+ * rules the plugin can use as-is (see `MdxTransformRule.extends`).
+ *
+ * - Bases are resolved first, so chains (`A` extends `B` extends `C`) flatten
+ *   fully; rules without `extends` are returned unchanged.
+ * - Missing entries (`undefined`) are left out of the result; the others keep
+ *   their order.
+ *
+ * Example:
+ * ```ts
+ * flattenTransformRules({
+ *   BaseScope: { renameFlow: { p: basePara, br: blankLine } },
+ *   NoteScope: { extends: 'BaseScope', omit: { renameFlow: ['br'] } }
+ * });
+ * // -> { BaseScope: { ... }, NoteScope: { renameFlow: { p: basePara } } }
+ * ```
+ *
+ * @param rules - Rules keyed by component name.
+ * @returns The flattened rules, keyed the same way.
+ * @throws When a rule extends a name without a rule, or extends form a cycle.
+ */
+export function flattenTransformRules(
+  rules: Readonly<Record<string, MdxTransformRule | undefined>>
+): Record<string, MdxTransformRule> {
+  // Bases are flattened on demand, so results are memoized by name.
+  const flattened = new Map<string, MdxTransformRule>();
+
+  const flatten = (
+    name: string,
+    chain: ReadonlyArray<string>
+  ): MdxTransformRule => {
+    const done = flattened.get(name);
+    if (done) return done;
+
+    const rule = Object.hasOwn(rules, name) ? rules[name] : undefined;
+    if (!rule) {
+      const [child] = chain.slice(-1);
+      throw new Error(
+        `"${child ?? name}" extends "${name}", which has no transform rule`
+      );
+    }
+    if (chain.includes(name)) {
+      throw new Error(
+        `Cyclic transform rule extends: ${[...chain, name].join(' -> ')}`
+      );
+    }
+
+    const result =
+      rule.extends === undefined
+        ? rule
+        : extendRule(flatten(rule.extends, [...chain, name]), rule);
+    flattened.set(name, result);
+    return result;
+  };
+
+  // Built in input order (not resolution order).
+  const flatRules: Record<string, MdxTransformRule> = {};
+  for (const [name, rule] of Object.entries(rules)) {
+    if (rule) flatRules[name] = flatten(name, []);
+  }
+
+  return flatRules;
+}
@@ -0,0 +1,152 @@
+import type {
+  MdxGroupMap,
+  MdxMarkdownRenameMap,
+  MdxRenameMap,
+  MdxRenameTarget,
+  MdxScopeRuleTables,
+  ScopedMdxFrontmatter
+} from './types';
+import { isRenameCandidateList } from './rename-candidates';
+
+/**
+ * Narrows a scope instance's resolved tables to the rewrites a document
+ * enables (see `createScopeTablesFilter`).
+ */
+export type ScopeTablesFilter = (
+  scopeName: string,
+  tables: MdxScopeRuleTables
+) => MdxScopeRuleTables;
+
+/**
+ * The items of `list` that `keep` accepts: `list` itself when all are kept,
+ * `undefined` when none is.
+ */
+function filterList<Item>(
+  list: ReadonlyArray<Item>,
+  keep: (item: Item) => boolean
+): ReadonlyArray<Item> | undefined {
+  const kept = list.filter(keep);
+  if (kept.length === list.length) return list;
+  return kept.length > 0 ? kept : undefined;
+}
+
+/**
+ * The entries of `table` that `filterEntry` keeps (possibly narrowed):
+ * `table` itself when none changes, `undefined` when none is left.
+ */
+function filterKeyedTable<Entry>(
+  table: Readonly<Record<string, Entry>>,
+  filterEntry: (entry: Entry) => Entry | undefined
+): Record<string, Entry> | undefined {
+  let changed = false;
+  const kept: [string, Entry][] = [];
+  for (const [key, entry] of Object.entries(table)) {
+    const filtered = filterEntry(entry);
+    if (filtered !== entry) changed = true;
+    if (filtered !== undefined) kept.push([key, filtered]);
+  }
+
+  if (!changed) return table;
+  return kept.length > 0 ? Object.fromEntries(kept) : undefined;
+}
+
+/**
+ * Creates the filter for a document's frontmatter `scopedMdx.disable` /
+ * `scopedMdx.only` (see `ScopedMdxFrontmatter`).
+ *
+ * A rewrite is identified by its scope and, when it emits one, its target
+ * component; a name in either list matches either:
+ * - `disable`: rewrites of a listed scope, or to a listed target, are dropped.
+ * - `only`: only rewrites of a listed scope, or to a listed target, are kept.
+ *   `removeFlow` / `unwrapFlow` have no target, so only their scope counts.
+ *
+ * Candidate lists lose the candidates whose target is dropped. Tables no
+ * filter touches are returned as-is (they keep their compiled selectors);
+ * filtered tables are memoized per scope.
+ *
+ * Example (`disable: ['AlertParagraph']`):
+ *   { renameFlow: { p: AlertParagraph, br: BlankLine } }
+ *   → { renameFlow: { br: BlankLine } }
+ *
+ * @param settings - The document's validated `scopedMdx` frontmatter.
+ * @returns The filter (the identity when neither list is set).
+ */
+export function createScopeTablesFilter(
+  settings: Pick<ScopedMdxFrontmatter, 'disable' | 'only'>
+): ScopeTablesFilter {
+  if (!settings.disable && !settings.only) return (_, tables) => tables;
+
+  const disabled = new Set(settings.disable);
+  const only = settings.only && new Set(settings.only);
+  // Scope name → authored table → filtered table.
+  const filtered = new Map<string, WeakMap<object, unknown>>();
+
+  return (scopeName, tables) => {
+    let byTable = filtered.get(scopeName);
+    if (!byTable) filtered.set(scopeName, (byTable = new WeakMap()));
+    const memo = byTable;
+    const memoize = <Table extends object>(
+      table: Table | undefined,
+      filter: (table: Table) => Table | undefined
+    ): Table | undefined => {
+      if (!table) return undefined;
+      if (memo.has(table)) return memo.get(table) as Table | undefined;
+
+      const result = filter(table);
+      memo.set(table, result);
+      return result;
+    };
+
+    const scopeDisabled = disabled.has(scopeName);
+    const scopeListed = !only || only.has(scopeName);
+    const keeps = (targetName?: string): boolean => {
+      if (scopeDisabled) return false;
+      if (targetName === undefined) return scopeListed;
+      return (
+        !disabled.has(targetName) &&
+        (scopeListed || only?.has(targetName) === true)
+      );
+    };
+    const keepsTarget = (target: MdxRenameTarget) =>
+      keeps(target.component.name);
+
+    const filterRenameMap = (table: MdxRenameMap) =>
+      filterKeyedTable(table, entry =>
+        isRenameCandidateList(entry)
+          ? filterList(entry, candidate => keepsTarget(candidate.to))
+          : keepsTarget(entry)
+            ? entry
+            : undefined
+      );
+    const filterMarkdownMap = (table: MdxMarkdownRenameMap) =>
+      filterKeyedTable<MdxRenameTarget | ReadonlyArray<MdxRenameTarget>>(
+        table,
+        entry =>
+          Array.isArray(entry)
+            ? filterList(entry as ReadonlyArray<MdxRenameTarget>, keepsTarget)
+            : keepsTarget(entry as MdxRenameTarget)
+              ? entry
+              : undefined
+      ) as MdxMarkdownRenameMap | undefined;
+    const filterGroupMap = (table: MdxGroupMap) =>
+      filterKeyedTable(table, target =>
+        keepsTarget(target) ? target : undefined
+      );
+    const filterSelectors = (selectors: ReadonlyArray<string>) =>
+      keeps() ? selectors : undefined;
+    const filterTargets = (targets: ReadonlyArray<MdxRenameTarget>) =>
+      filterList(targets, keepsTarget);
+
+    return {
+      renameFlow: memoize(tables.renameFlow, filterRenameMap),
+      renameText: memoize(tables.renameText, filterRenameMap),
+      renameMarkdown: memoize(tables.renameMarkdown, filterMarkdownMap),
+      wrapFlow: memoize(tables.wrapFlow, filterRenameMap),
+      unwrapFlow: memoize(tables.unwrapFlow, filterSelectors),
+      removeFlow: memoize(tables.removeFlow, filterSelectors),
+      groupFlow: memoize(tables.groupFlow, filterGroupMap),
+      prependToScope: memoize(tables.prependToScope, filterTargets),
+      appendToScope: memoize(tables.appendToScope, filterTargets)
+    };
+  };
+}
@@ -0,0 +1,131 @@
+import type { Node, Parent } from 'unist';
+import type {
+  MdxJsxAttribute,
+  MdxJsxExpressionAttribute,
+  MdxJsxFlowElement,
+  MdxJsxTextElement
+} from 'mdast-util-mdx-jsx';
+
+import { visit, SKIP } from 'unist-util-visit';
+
+import type { MdxSandboxOptions } from './types';
+import { readCommentDirective } from './comment-directives';
+
+type MdxJsxElement = MdxJsxFlowElement | MdxJsxTextElement;
+
+/**
+ * Receives every sandbox removal (see `sanitizeSandboxScope`); `fatal` is set
+ * for expressions under `expressions: "reject"`.
+ */
+export type SandboxReport = (
+  node: Node,
+  description: string,
+  fatal: boolean
+) => void;
+
+const isExpressionNode = (node: Node): boolean =>
+  node.type === 'mdxFlowExpression' || node.type === 'mdxTextExpression';
+
+const isJsxElement = (node: Node): node is MdxJsxElement =>
+  node.type === 'mdxJsxFlowElement' || node.type === 'mdxJsxTextElement';
+
+/**
+ * Event handlers (`onClick`, `onload`) and raw HTML injection are dropped
+ * regardless of how their value is written.
+ */
+const isUnsafeAttributeName = (name: string): boolean =>
+  /^on/i.test(name) || name === 'dangerouslySetInnerHTML';
+
+/**
+ * Describes an attribute for messages: `{...spread}`, `onClick`, `title={…}`.
+ */
+const describeAttribute = (
+  attribute: MdxJsxAttribute | MdxJsxExpressionAttribute
+): string =>
+  attribute.type === 'mdxJsxExpressionAttribute'
+    ? `{${attribute.value}}`
+    : typeof attribute.value === 'object' && attribute.value !== null
+      ? `${attribute.name}={…}`
+      : attribute.name;
+
+/**
+ * Removes what untrusted MDX must not run or render from a sandboxed scope's
+ * subtree (the scope element itself is left alone):
+ *
+ * - `mdxFlowExpression` / `mdxTextExpression` nodes (`{user.token}`), except
+ *   comment directives (`{/* scoped-mdx-disable *\/}`), which run nothing.
+ * - Expression attributes: spreads (`{...props}`) and expression values
+ *   (`href={x}`).
+ * - `on*` and `dangerouslySetInnerHTML` attributes, whatever their value.
+ * - JSX elements (with their subtree) whose name is not in `knownComponents`,
+ *   including lowercase tags such as `<script>` or `<iframe>`.
+ *
+ * Nested scopes are sanitized too: the sandbox covers everything the scope
+ * contains, and runs before any rewrite, so emitted target props are kept.
+ *
+ * Example (`knownComponents`: `PartnerScope`, `Note`):
+ * ```mdx
+ * <PartnerScope>
+ *   <Note onClick={steal} {...props}>Hi {secret}</Note>
+ *   <script>alert(1)</script>
+ * </PartnerScope>
+ * ```
+ * → `<PartnerScope><Note>Hi </Note></PartnerScope>`
+ *
+ * @param scopeElement - The sandboxed scope element.
+ * @param options - Sandbox options of the scope.
+ * @param knownComponents - Names that may appear (the component registry).
+ * @param report - Called for every removal (with `fatal` for rejections).
+ */
+export function sanitizeSandboxScope(
+  scopeElement: MdxJsxFlowElement,
+  options: MdxSandboxOptions,
+  knownComponents: ReadonlySet<string>,
+  report: SandboxReport
+): void {
+  const rejectExpressions = options.expressions === 'reject';
+
+  visit(
+    scopeElement,
+    (node: Node, index: number | undefined, parent: Parent | undefined) => {
+      if (node === scopeElement || !parent || index === undefined) return;
+
+      if (isExpressionNode(node) && !readCommentDirective(node)) {
+        report(
+          node,
+          `${rejectExpressions ? 'Rejected' : 'Removed'} expression`,
+          rejectExpressions
+        );
+        parent.children.splice(index, 1);
+        return [SKIP, index];
+      }
+
+      if (!isJsxElement(node)) return;
+
+      // Fragments (`<>…</>`, `name: null`) render nothing themselves and stay.
+      if (node.name && !knownComponents.has(node.name)) {
+        report(node, `Removed unknown element <${node.name}>`, false);
+        parent.children.splice(index, 1);
+        return [SKIP, index];
+      }
+
+      node.attributes = node.attributes.filter(attribute => {
+        const isExpression =
+          attribute.type === 'mdxJsxExpressionAttribute' ||
+          (typeof attribute.value === 'object' && attribute.value !== null);
+        const isUnsafe =
+          attribute.type === 'mdxJsxAttribute' &&
+          isUnsafeAttributeName(attribute.name);
+        if (!isExpression && !isUnsafe) return true;
+
+        const isRejected = isExpression && !isUnsafe && rejectExpressions;
+        report(
+          attribute as Node,
+          `${isRejected ? 'Rejected' : 'Removed'} attribute ${describeAttribute(attribute)} of <${node.name ?? ''}>`,
+          isRejected
+        );
+        return false;
+      });
+    }
+  );
+}
@@ -0,0 +1,84 @@
+import type {
+  MdxScopeRuleTables,
+  MdxScopeVariant,
+  MdxSourceAttributeValue,
+  MdxTransformRule
+} from './types';
+
+/**
+ * Rule keys whose presence activates a registry entry as a scope.
+ */
+const scopeRuleKeys = [
+  'renameFlow',
+  'renameText',
+  'renameMarkdown',
+  'wrapFlow',
+  'unwrapFlow',
+  'removeFlow',
+  'groupFlow',
+  'prependToScope',
+  'appendToScope',
+  'variants'
+] as const satisfies ReadonlyArray<keyof MdxTransformRule>;
+
+/**
+ * `true` when the rule declares any scope rule key (an own property, even if
+ * empty), i.e. when its registry entry acts as a scope.
+ */
+export const isScopeRuleConfigured = (rule: MdxTransformRule): boolean =>
+  scopeRuleKeys.some(key => Object.hasOwn(rule, key));
+
+/**
+ * Checks a variant's `when` against the literal attributes of a scope element.
+ *
+ * - Every declared attribute must be present with an equal value (strict equality).
+ * - An empty `when` matches every scope element.
+ */
+function matchesScopeVariant(
+  variant: MdxScopeVariant,
+  scopeAttributes: Readonly<Record<string, MdxSourceAttributeValue>>
+): boolean {
+  return Object.entries(variant.when).every(
+    ([name, expected]) =>
+      Object.hasOwn(scopeAttributes, name) && scopeAttributes[name] === expected
+  );
+}
+
+/**
+ * Resolves the tables (renames and structural edits) that apply to one scope
+ * element.
+ *
+ * Resolution:
+ * 1) Find the first variant whose `when` matches the scope's literal attributes.
+ * 2) No match → the rule's own (default) tables.
+ * 3) Match → the variant's tables, falling back per table to the default one.
+ *
+ * Example:
+ *   rule:   { renameFlow: A, renameText: B, variants: [{ when: { variant: 'compact' }, rule: { renameFlow: C } }] }
+ *   <ArticleScope variant="compact"> → { renameFlow: C, renameText: B }
+ *   <ArticleScope>                   → { renameFlow: A, renameText: B }
+ *
+ * @param rule - The scope component's transform rule.
+ * @param scopeAttributes - Literal attributes of the scope element.
+ * @returns The tables to apply inside this scope element.
+ */
+export function resolveScopeRule(
+  rule: MdxTransformRule,
+  scopeAttributes: Readonly<Record<string, MdxSourceAttributeValue>>
+): MdxScopeRuleTables {
+  const variant = rule.variants?.find(candidate =>
+    matchesScopeVariant(candidate, scopeAttributes)
+  );
+
+  return {
+    renameFlow: variant?.rule.renameFlow ?? rule.renameFlow,
+    renameText: variant?.rule.renameText ?? rule.renameText,
+    renameMarkdown: variant?.rule.renameMarkdown ?? rule.renameMarkdown,
+    wrapFlow: variant?.rule.wrapFlow ?? rule.wrapFlow,
+    unwrapFlow: variant?.rule.unwrapFlow ?? rule.unwrapFlow,
+    removeFlow: variant?.rule.removeFlow ?? rule.removeFlow,
+    groupFlow: variant?.rule.groupFlow ?? rule.groupFlow,
+    prependToScope: variant?.rule.prependToScope ?? rule.prependToScope,
+    appendToScope: variant?.rule.appendToScope ?? rule.appendToScope
+  };
+}
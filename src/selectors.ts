@@ -0,0 +1,528 @@
+import type { Node, Parent } from 'unist';
+
+/**
+ * `an + b` formula of `:nth-child(...)` / `:nth-of-type(...)`.
+ */
+type NthFormula = { step: number; offset: number };
+
+type PseudoClass =
+  | {
+      kind:
+        | 'first-child'
+        | 'last-child'
+        | 'only-child'
+        | 'first-of-type'
+        | 'last-of-type'
+        | 'only-of-type';
+    }
+  | { kind: 'nth-child' | 'nth-of-type'; formula: NthFormula }
+  | { kind: 'not'; compound: CompoundSelector };
+
+/**
+ * One compound selector (`img:not(:only-child)`): an optional element name
+ * (`null` = any element, written `*` or omitted) plus pseudo-classes.
+ */
+type CompoundSelector = {
+  name: string | null;
+  pseudos: ReadonlyArray<PseudoClass>;
+};
+
+/**
+ * A parsed selector, stored right-to-left for matching:
+ * - `subject`: the compound the renamed element itself must match.
+ * - `ancestors`: the remaining compounds, nearest first, each with the
+ *   combinator that links it to the compound on its right.
+ * - `anchored`: a leading `>` (the leftmost compound is a direct child of the
+ *   scope element).
+ */
+type ComplexSelector = {
+  subject: CompoundSelector;
+  ancestors: ReadonlyArray<{
+    combinator: 'child' | 'descendant';
+    compound: CompoundSelector;
+  }>;
+  anchored: boolean;
+};
+
+/**
+ * CSS-like specificity: `[pseudo-classes, element names]`, compared
+ * lexicographically. A leading `>` counts as an element name (it stands for
+ * the scope element).
+ */
+type Specificity = readonly [number, number];
+
+const simplePseudoKinds: ReadonlySet<string> = new Set([
+  'first-child',
+  'last-child',
+  'only-child',
+  'first-of-type',
+  'last-of-type',
+  'only-of-type'
+]);
+
+// An element name as JSX writes it: an identifier (`p`, `Callout`, `my-tag`),
+// a member name (`motion.div`), or a namespaced name written with `|` as in
+// CSS (`svg|rect` for `<svg:rect>`, since `:` starts a pseudo-class).
+const namePattern =
+  /^[A-Za-z_$][\w$-]*(?:(?:\.[A-Za-z_$][\w$-]*)+|\|[A-Za-z_$][\w$-]*)?/;
+
+/**
+ * Parses an `an + b` argument (`2`, `odd`, `even`, `2n+1`, `-n + 3`, `n`).
+ */
+function parseNthFormula(argument: string): NthFormula | undefined {
+  const source = argument.replace(/\s+/g, '');
+
+  if (source === 'odd') return { step: 2, offset: 1 };
+  if (source === 'even') return { step: 2, offset: 0 };
+  if (/^[+-]?\d+$/.test(source)) return { step: 0, offset: Number(source) };
+
+  const match = /^([+-]?\d*)n([+-]\d+)?$/.exec(source);
+  if (!match) return undefined;
+
+  const [, rawStep = '', rawOffset] = match;
+  const step =
+    rawStep === '' || rawStep === '+'
+      ? 1
+      : rawStep === '-'
+        ? -1
+        : Number(rawStep);
+
+  return { step, offset: rawOffset ? Number(rawOffset) : 0 };
+}
+
+/**
+ * Read position inside one selector string.
+ */
+type Cursor = { readonly source: string; position: number };
+
+const peek = (cursor: Cursor): string => cursor.source.charAt(cursor.position);
+
+function fail(cursor: Cursor, reason: string): never {
+  throw new Error(`Invalid selector "${cursor.source}": ${reason}`);
+}
+
+function skipWhitespace(cursor: Cursor): boolean {
+  const start = cursor.position;
+  while (/\s/.test(peek(cursor))) cursor.position++;
+  return cursor.position > start;
+}
+
+// Reads a parenthesized argument (balanced), returning its trimmed content.
+function readArgument(cursor: Cursor, kind: string): string {
+  if (peek(cursor) !== '(') fail(cursor, `:${kind} requires an argument`);
+
+  let depth = 0;
+  const start = cursor.position + 1;
+  for (; cursor.position < cursor.source.length; cursor.position++) {
+    const char = peek(cursor);
+    if (char === '(') depth++;
+    if (char === ')' && --depth === 0) {
+      const argument = cursor.source.slice(start, cursor.position).trim();
+      cursor.position++;
+      return argument;
+    }
+  }
+
+  return fail(cursor, `unclosed :${kind}(`);
+}
+
+function parsePseudo(cursor: Cursor, afterName: boolean): PseudoClass {
+  const match = /^[a-z-]+/.exec(cursor.source.slice(cursor.position));
+  const kind = match?.[0] ?? '';
+  cursor.position += kind.length;
+
+  if (simplePseudoKinds.has(kind)) {
+    return { kind } as PseudoClass;
+  }
+
+  if (kind === 'nth-child' || kind === 'nth-of-type') {
+    const argument = readArgument(cursor, kind);
+    const formula = parseNthFormula(argument);
+    if (!formula) fail(cursor, `invalid :${kind}(${argument}) argument`);
+
+    return { kind, formula };
+  }
+
+  if (kind === 'not') {
+    const argument = readArgument(cursor, kind);
+    const inner: Cursor = { source: argument, position: 0 };
+    const compound = parseCompound(inner);
+    if (inner.position !== argument.length) {
+      fail(cursor, ':not(...) accepts a single compound selector');
+    }
+
+    return { kind, compound };
+  }
+
+  return fail(
+    cursor,
+    afterName && kind
+      ? `unknown pseudo-class ":${kind}" (write a namespaced name as "ns|${kind}")`
+      : `unknown pseudo-class ":${kind}"`
+  );
+}
+
+function parseCompound(cursor: Cursor): CompoundSelector {
+  let rawName = '';
+  if (peek(cursor) === '*') {
+    rawName = '*';
+  } else {
+    rawName = namePattern.exec(cursor.source.slice(cursor.position))?.[0] ?? '';
+  }
+  cursor.position += rawName.length;
+
+  const pseudos: PseudoClass[] = [];
+  while (peek(cursor) === ':') {
+    cursor.position++;
+    pseudos.push(parsePseudo(cursor, rawName !== '' && pseudos.length === 0));
+  }
+
+  if (rawName === '' && pseudos.length === 0) {
+    fail(
+      cursor,
+      cursor.position < cursor.source.length
+        ? `unexpected "${peek(cursor)}"`
+        : 'expected an element name or a pseudo-class'
+    );
+  }
+
+  return {
+    name: rawName === '' || rawName === '*' ? null : rawName.replace('|', ':'),
+    pseudos
+  };
+}
+
+/**
+ * Parses one selector string (recursive descent).
+ *
+ * Grammar:
+ *   selector   := [">"] compound (combinator compound)*
+ *   combinator := ">" | whitespace
+ *   compound   := [name | "*"] pseudo*
+ *   name       := identifier ("." identifier)* | identifier "|" identifier
+ *   pseudo     := ":" kind ["(" argument ")"]
+ *
+ * Anything else (`p, div`, `p + q`, `p[x]`) is malformed.
+ *
+ * @throws When the selector is malformed (message names the selector).
+ */
+function parseSelector(source: string): ComplexSelector {
+  const cursor: Cursor = { source, position: 0 };
+  skipWhitespace(cursor);
+
+  const anchored = peek(cursor) === '>';
+  if (anchored) {
+    cursor.position++;
+    skipWhitespace(cursor);
+  }
+
+  const compounds = [parseCompound(cursor)];
+  const combinators: Array<'child' | 'descendant'> = [];
+
+  while (cursor.position < source.length) {
+    const hadWhitespace = skipWhitespace(cursor);
+    if (cursor.position >= source.length) break;
+
+    if (peek(cursor) === '>') {
+      cursor.position++;
+      skipWhitespace(cursor);
+      combinators.push('child');
+    } else if (hadWhitespace) {
+      combinators.push('descendant');
+    } else {
+      fail(cursor, `unexpected "${peek(cursor)}"`);
+    }
+
+    compounds.push(parseCompound(cursor));
+  }
+
+  const subject = compounds[compounds.length - 1] as CompoundSelector;
+  const ancestors = compounds
+    .slice(0, -1)
+    .map((compound, index) => ({
+      combinator: combinators[index] as 'child' | 'descendant',
+      compound
+    }))
+    .reverse();
+
+  return { subject, ancestors, anchored };
+}
+
+/**
+ * Reads the element name a selector's subject requires (`li > p` → `p`), or
+ * `null` for subject-less selectors (`:first-child`, `*`).
+ *
+ * @throws When the selector is malformed.
+ */
+export function selectorSubjectName(source: string): string | null {
+  return parseSelector(source).subject.name;
+}
+
+function compoundSpecificity(compound: CompoundSelector): Specificity {
+  let pseudos = 0;
+  let names = compound.name === null ? 0 : 1;
+
+  for (const pseudo of compound.pseudos) {
+    if (pseudo.kind === 'not') {
+      // `:not(x)` weighs as much as its argument (as in CSS).
+      const [innerPseudos, innerNames] = compoundSpecificity(pseudo.compound);
+      pseudos += innerPseudos;
+      names += innerNames;
+    } else {
+      pseudos++;
+    }
+  }
+
+  return [pseudos, names];
+}
+
+function selectorSpecificity(selector: ComplexSelector): Specificity {
+  let [pseudos, names] = compoundSpecificity(selector.subject);
+
+  for (const { compound } of selector.ancestors) {
+    const [ancestorPseudos, ancestorNames] = compoundSpecificity(compound);
+    pseudos += ancestorPseudos;
+    names += ancestorNames;
+  }
+
+  return [pseudos, names + (selector.anchored ? 1 : 0)];
+}
+
+/**
+ * Node kinds that never count as siblings for structural pseudo-classes
+ * (prose text, MDX expressions and raw HTML comments), mirroring CSS, where
+ * text nodes are not elements.
+ */
+const nonElementTypes: ReadonlySet<string> = new Set([
+  'text',
+  'mdxTextExpression',
+  'mdxFlowExpression',
+  'html'
+]);
+
+const isElementLike = (node: Node): boolean => !nonElementTypes.has(node.type);
+
+/**
+ * Context a selector is evaluated in.
+ *
+ * - `path`: nodes from the scope element (`path[0]`) down to the subject
+ *   (last), including Markdown nodes such as paragraphs and list items.
+ * - `nameOf`: the *source* name of a node (its tag name before any rename in
+ *   this traversal, or the mdast type for Markdown nodes), so earlier
+ *   rewrites never change what later selectors see.
+ */
+export type SelectorContext = {
+  path: ReadonlyArray<Node>;
+  nameOf: (node: Node) => string | undefined;
+};
+
+const isJsxElement = (node: Node): boolean =>
+  node.type === 'mdxJsxFlowElement' || node.type === 'mdxJsxTextElement';
+
+function matchesNth(position: number, { step, offset }: NthFormula): boolean {
+  if (step === 0) return position === offset;
+
+  const n = (position - offset) / step;
+  return Number.isInteger(n) && n >= 0;
+}
+
+/**
+ * Checks a compound selector against the node at `path[pathIndex]`.
+ */
+function matchesCompound(
+  compound: CompoundSelector,
+  context: SelectorContext,
+  pathIndex: number
+): boolean {
+  const node = context.path[pathIndex] as Node;
+  const name = context.nameOf(node);
+  if (compound.name !== null && compound.name !== name) return false;
+  if (compound.pseudos.length === 0) return true;
+
+  // Structural pseudo-classes need the siblings; the scope element's own
+  // parent is outside the traversal, so they never match on the scope.
+  const parent = context.path[pathIndex - 1] as Parent | undefined;
+  if (!parent) return false;
+
+  const siblings = parent.children.filter(isElementLike);
+  const sameType = siblings.filter(sibling => context.nameOf(sibling) === name);
+  const position = siblings.indexOf(node) + 1;
+  const typePosition = sameType.indexOf(node) + 1;
+
+  return compound.pseudos.every(pseudo => {
+    switch (pseudo.kind) {
+      case 'first-child':
+        return position === 1;
+      case 'last-child':
+        return position === siblings.length;
+      case 'only-child':
+        return siblings.length === 1;
+      case 'first-of-type':
+        return typePosition === 1;
+      case 'last-of-type':
+        return typePosition === sameType.length;
+      case 'only-of-type':
+        return sameType.length === 1;
+      case 'nth-child':
+        return matchesNth(position, pseudo.formula);
+      case 'nth-of-type':
+        return matchesNth(typePosition, pseudo.formula);
+      case 'not':
+        return !matchesCompound(pseudo.compound, context, pathIndex);
+    }
+  });
+}
+
+/**
+ * Index of the nearest JSX element above `path[pathIndex]` (Markdown nodes
+ * such as paragraphs are transparent to combinators), or `-1`.
+ */
+function parentElementIndex(
+  context: SelectorContext,
+  pathIndex: number
+): number {
+  for (let index = pathIndex - 1; index >= 0; index--) {
+    if (isJsxElement(context.path[index] as Node)) return index;
+  }
+  return -1;
+}
+
+/**
+ * Matches `selector.ancestors[step]` (and everything left of it) against the
+ * JSX elements above `path[pathIndex]`, backtracking over descendant
+ * combinators.
+ */
+function matchesAncestors(
+  selector: ComplexSelector,
+  context: SelectorContext,
+  step: number,
+  pathIndex: number
+): boolean {
+  const ancestor = selector.ancestors[step];
+
+  if (!ancestor) {
+    // Leftmost compound reached: a leading `>` pins it under the scope element.
+    return !selector.anchored || parentElementIndex(context, pathIndex) === 0;
+  }
+
+  let candidate = parentElementIndex(context, pathIndex);
+  while (candidate >= 0) {
+    if (
+      matchesCompound(ancestor.compound, context, candidate) &&
+      matchesAncestors(selector, context, step + 1, candidate)
+    ) {
+      return true;
+    }
+    if (ancestor.combinator === 'child') return false;
+
+    candidate = parentElementIndex(context, candidate);
+  }
+
+  return false;
+}
+
+function matchesSelector(
+  selector: ComplexSelector,
+  context: SelectorContext
+): boolean {
+  const subjectIndex = context.path.length - 1;
+
+  return (
+    matchesCompound(selector.subject, context, subjectIndex) &&
+    matchesAncestors(selector, context, 0, subjectIndex)
+  );
+}
+
+type CompiledRule<Entry> = {
+  selector: ComplexSelector;
+  specificity: Specificity;
+  order: number;
+  entry: Entry;
+};
+
+/**
+ * A selector-keyed table whose keys were parsed once (see `compileSelectorMap`).
+ */
+export type CompiledSelectorMap<Entry> = {
+  byName: ReadonlyMap<string, ReadonlyArray<CompiledRule<Entry>>>;
+  universal: ReadonlyArray<CompiledRule<Entry>>;
+};
+
+// Higher specificity first; on a tie, the later key first (as in CSS).
+const byPriority = <Entry>(
+  left: CompiledRule<Entry>,
+  right: CompiledRule<Entry>
+): number =>
+  right.specificity[0] - left.specificity[0] ||
+  right.specificity[1] - left.specificity[1] ||
+  right.order - left.order;
+
+/**
+ * Parses every key of a selector-keyed table (`renameFlow`, `renameText`,
+ * `wrapFlow`, or a selector list turned into a table) into a selector.
+ *
+ * - Plain tag keys (`p`) are selectors too (an element name only).
+ * - Rules are indexed by subject name; subject-less selectors (`:first-child`,
+ *   `*`) apply to every element.
+ * - Each index is sorted by priority once, so matching is a linear scan.
+ *
+ * @param table - Authored selector → entry table.
+ * @returns The compiled table.
+ * @throws When a key is not a valid selector.
+ */
+export function compileSelectorMap<Entry>(
+  table: Readonly<Record<string, Entry>>
+): CompiledSelectorMap<Entry> {
+  const byName = new Map<string, Array<CompiledRule<Entry>>>();
+  const universal: Array<CompiledRule<Entry>> = [];
+
+  Object.entries(table).forEach(([key, entry], order) => {
+    const selector = parseSelector(key);
+    const rule = {
+      selector,
+      specificity: selectorSpecificity(selector),
+      order,
+      entry
+    };
+
+    const name = selector.subject.name;
+    if (name === null) {
+      universal.push(rule);
+    } else {
+      byName.set(name, [...(byName.get(name) ?? []), rule]);
+    }
+  });
+
+  for (const rules of byName.values()) rules.sort(byPriority);
+  universal.sort(byPriority);
+
+  return { byName, universal };
+}
+
+/**
+ * Lists the entries of a compiled table whose selector matches the subject at
+ * the end of `context.path`, highest priority first.
+ *
+ * Priority: higher specificity (`[pseudo-classes, element names]`) first; on a
+ * tie, the key declared later first.
+ *
+ * @param compiled - Compiled table of the current scope.
+ * @param name - Source name of the subject.
+ * @param context - Path and source names used by structural checks.
+ * @returns The matching entries, in priority order.
+ */
+export function matchSelectorEntries<Entry>(
+  compiled: CompiledSelectorMap<Entry>,
+  name: string,
+  context: SelectorContext
+): Array<Entry> {
+  const named = compiled.byName.get(name) ?? [];
+  const rules =
+    compiled.universal.length === 0
+      ? named
+      : [...named, ...compiled.universal].sort(byPriority);
+
+  return rules
+    .filter(rule => matchesSelector(rule.selector, context))
+    .map(rule => rule.entry);
+}
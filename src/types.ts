@@ -1,3 +1,8 @@
+import type { Position } from 'unist';
+import type { VFile } from 'vfile';
+
+import type { ScopedMdxRuleId } from './messages';
+
 /**
  * Compile-time MDX transform metadata.
  *
@@ -24,6 +29,54 @@
  */
 export type MdxPropValue = unknown;
 
+/**
+ * How source attributes and target props are combined when an element is renamed.
+ *
+ * - `"replace"`: target props only; source attributes are discarded (default).
+ * - `"preserve-source"`: source attributes only; target props are not emitted.
+ * - `"merge-target-wins"`: both; on a name collision the target prop is kept.
+ * - `"merge-source-wins"`: both; on a name collision the source attribute is kept.
+ */
+export type MdxAttributeMergeMode =
+  'replace' | 'preserve-source' | 'merge-target-wins' | 'merge-source-wins';
+
+/**
+ * Source attribute selection for the non-`replace` merge modes.
+ *
+ * - `allow`: only these source attribute names are carried over.
+ * - `deny`: these source attribute names are dropped; all others are carried over.
+ * - `allow` and `deny` are mutually exclusive.
+ */
+type MdxAttributeNameFilter =
+  | { allow: ReadonlyArray<string>; deny?: never }
+  | { deny: ReadonlyArray<string>; allow?: never }
+  | { allow?: never; deny?: never };
+
+/**
+ * Attribute policy: a merge mode, or a merge mode plus name filtering and
+ * spread handling.
+ *
+ * Semantics shared by all modes that carry source attributes:
+ * - `className` / `class` merge as whitespace-separated tokens when both the
+ *   source attribute and the target prop are string literals
+ *   (`<p className="lead">` + `className: "alert"` → `className="lead alert"`).
+ *   The two names are treated as the same attribute.
+ * - Spread attributes (`{...props}`, `mdxJsxExpressionAttribute`) have no name,
+ *   so name filters do not apply to them. `spreads` decides whether they are
+ *   carried over (`"keep"`, default) or dropped (`"drop"`). Kept spreads stay
+ *   in source order relative to the other source attributes, so the collision
+ *   winner also wins over spread values.
+ *
+ * Example:
+ *   attributePolicy: { mode: 'merge-target-wins', allow: ['id', 'className'], spreads: 'drop' }
+ */
+export type MdxAttributePolicy =
+  | MdxAttributeMergeMode
+  | (MdxAttributeNameFilter & {
+      mode: Exclude<MdxAttributeMergeMode, 'replace'>;
+      spreads?: 'keep' | 'drop';
+    });
+
 /**
  * MDX AST rewrite options (transformer directives).
  *
@@ -33,7 +86,8 @@ export type MdxPropValue = unknown;
 export type MdxRewriteOptions = {
   /**
    * Controls whether the replacement is treated as a marker-style (void)
-   * element at the MDX JSX flow level (i.e. whether children are cleared).
+   * element (i.e. whether children are cleared). Applies to flow, text and
+   * markdown replacements alike.
    *
    * - `"clear"`: children are cleared and the node becomes “self-closing” in intent.
    *             This is appropriate for replacements of void-like flow nodes
@@ -44,8 +98,91 @@ export type MdxRewriteOptions = {
    *             (e.g. `<p>...</p> → <MessageParagraph>...</MessageParagraph>`).
    */
   childrenPolicy?: 'preserve' | 'clear';
+  /**
+   * Controls how the source element's attributes combine with the target's
+   * `component.props` (see `MdxAttributePolicy`).
+   *
+   * - `"replace"` / `undefined`: the rename emits target props only.
+   *             (e.g. `<p id="intro">` → `<AlertParagraph variant="red">`).
+   * - `"merge-target-wins"`: keeps source attributes such as anchors and classes
+   *             (e.g. `<p id="intro">` → `<AlertParagraph id="intro" variant="red">`).
+   *
+   * For `renameMarkdown`, the source attributes are the node's fields
+   * (`image` → `src` / `alt` / `title`, `heading` → `depth`, …; see
+   * `MdxRenameSource.attributes`) and the default is `"merge-target-wins"`, so
+   * `![Logo](/a.png)` keeps `src` and `alt` on the target.
+   */
+  attributePolicy?: MdxAttributePolicy;
 };
 
+/**
+ * Literal attribute value readable at compile time.
+ *
+ * - JSX string attributes (`id="intro"`) → `string`
+ * - JSX boolean presence (`<img hidden />`) → `true`
+ * - JSX literal expressions (`level={2}`, `open={false}`) → their primitive value
+ * - Markdown node fields (`depth`, `ordered`, …) → their primitive value
+ */
+export type MdxSourceAttributeValue = string | number | boolean;
+
+/**
+ * Compile-time description of the node being renamed, passed to computed props.
+ *
+ * Example (`<h2 id="intro">Getting started</h2>` inside `<ArticleScope tone="info">`):
+ *   {
+ *     name: 'h2',
+ *     attributes: { id: 'intro' },
+ *     text: 'Getting started',
+ *     index: 3,
+ *     scope: { name: 'ArticleScope', attributes: { tone: 'info' } }
+ *   }
+ */
+export type MdxRenameSource = {
+  /**
+   * Source tag name (`p`, `br`) or mdast node type (`heading`, `image`).
+   */
+  name: string;
+  /**
+   * Literal attributes of the source.
+   *
+   * - JSX sources: attributes with a string value or boolean presence.
+   *   Expression attributes (`id={x}`) and spreads are not literal and are omitted.
+   * - Markdown sources: the node's fields (`heading` → `depth`,
+   *   `code` → `lang` / `meta`, `list` → `ordered` / `start`,
+   *   `image` → `src` / `alt` / `title`); directives → their attributes
+   *   (`::youtube{id=abc}` → `{ id: "abc" }`).
+   */
+  attributes: Readonly<Record<string, MdxSourceAttributeValue>>;
+  /**
+   * Plain-text content of the source (text, inline code and code values,
+   * concatenated in document order).
+   */
+  text: string;
+  /**
+   * Index of the source among its parent's children.
+   */
+  index: number;
+  /**
+   * The enclosing scope element.
+   */
+  scope: {
+    name: string;
+    attributes: Readonly<Record<string, MdxSourceAttributeValue>>;
+  };
+};
+
+/**
+ * Props computed at compile time from the source being renamed.
+ *
+ * The returned object is emitted exactly like static `component.props`.
+ *
+ * Example:
+ *   props: source => ({ title: source.text })
+ */
+export type MdxComputedProps<Props = Record<string, MdxPropValue>> = (
+  source: MdxRenameSource
+) => Props;
+
 /**
  * Rename target:
  * Always an explicit object so call sites can uniformly attach props and
@@ -82,9 +219,38 @@ export type MdxRenameTarget = {
      *   props: { variant: "timeline", enabled: true }
      * becomes:
      *   <X variant={"timeline"} enabled />
+     *
+     * Computed form:
+     * - A function receives the `MdxRenameSource` and returns the props object.
+     *   It runs once per renamed node at compile time.
+     *
+     * Example:
+     *   props: source => ({ title: source.text })
      */
-    props?: Record<string, MdxPropValue>;
+    props?: Record<string, MdxPropValue> | MdxComputedProps;
   };
+  /**
+   * Props copied from the enclosing scope element: target prop name → scope
+   * attribute name.
+   *
+   * Behavior:
+   * - The scope attribute is copied as-is (literal or expression value), under
+   *   the target prop name.
+   * - When the scope element does not set the attribute, nothing is inherited
+   *   and `component.props` (if any) applies as the fallback.
+   * - When it does, the inherited value replaces the same-named `component.props` value.
+   * - Inherited attributes are emitted under every `attributePolicy`; with
+   *   `"preserve-source"` they replace same-named source attributes.
+   *
+   * Example (`<Callout tone="warning">` as scope):
+   *   p: {
+   *     component: { name: 'CalloutParagraph' },
+   *     inheritFromScope: { tone: 'tone' }
+   *   }
+   * becomes:
+   *   <CalloutParagraph tone="warning">…</CalloutParagraph>
+   */
+  inheritFromScope?: Readonly<Record<string, string>>;
   /**
    * Transformer directives that control how the MDX AST node is rewritten.
    * (Not React props.)
@@ -92,6 +258,190 @@ export type MdxRenameTarget = {
   transformOptions?: MdxRewriteOptions;
 };
 
+/**
+ * Predicate for one literal source attribute (see `MdxRenameCandidate.when`).
+ *
+ * - A plain value is shorthand for `{ equals: value }`, a `RegExp` for
+ *   `{ regex: pattern }`.
+ * - An operator object may combine operators; all declared ones must hold:
+ *   - `equals`: the attribute is set to exactly this value.
+ *   - `exists`: the attribute is set (`true`) or not set (`false`).
+ *   - `regex`: the attribute is set and its value (as a string) matches.
+ *   - `oneOf`: the attribute is set to one of the listed values.
+ *
+ * Example:
+ *   { src: { regex: /^https:\/\// }, loading: { oneOf: ['lazy', 'eager'] }, hidden: { exists: false } }
+ */
+export type MdxAttributePredicate =
+  | MdxSourceAttributeValue
+  | RegExp
+  | {
+      equals?: MdxSourceAttributeValue;
+      exists?: boolean;
+      regex?: RegExp | string;
+      oneOf?: ReadonlyArray<MdxSourceAttributeValue>;
+    };
+
+/**
+ * A rename target guarded by predicates on the source element's literal
+ * attributes (one entry of a candidate list in `renameFlow` / `renameText`).
+ */
+export type MdxRenameCandidate = {
+  /**
+   * Attribute name → predicate; every listed predicate must hold.
+   * Omitted (or empty) → the candidate always matches, which makes it the
+   * fallback when placed last.
+   */
+  when?: Readonly<Record<string, MdxAttributePredicate>>;
+  /**
+   * The rename target applied when this candidate wins.
+   */
+  to: MdxRenameTarget;
+};
+
+/**
+ * JSX rename map (`renameFlow` / `renameText`): selector key → rename target
+ * or ordered candidate list.
+ *
+ * Keys are CSS-like selectors over the scope subtree:
+ * - `p`: any `<p>` (a plain tag name).
+ * - `> p`: a `<p>` whose nearest JSX ancestor is the scope element.
+ * - `li > p` / `ul p`: child / descendant combinators between JSX elements.
+ * - `p:first-child`, `img:not(:only-child)`, `p:nth-of-type(2n+1)`: structural
+ *   pseudo-classes (`first-`, `last-`, `only-` × `child` / `of-type`,
+ *   `nth-child(...)`, `nth-of-type(...)`, `not(...)`).
+ * When several keys match, the most specific (pseudo-classes, then element
+ * names; a leading `>` counts as a name) is tried first; ties go to the key
+ * declared later.
+ *
+ * A candidate list is evaluated in order and the first candidate whose `when`
+ * holds wins; when none holds, the next matching key is tried, and the element
+ * is left unchanged when no key yields a target:
+ *
+ *   renameFlow: {
+ *     img: [
+ *       { when: { src: { regex: /^https:/ } }, to: { component: { name: 'RemoteImage' } } },
+ *       { to: { component: { name: 'LocalImage' } } }
+ *     ]
+ *   }
+ */
+export type MdxRenameMap = Record<
+  string,
+  MdxRenameTarget | ReadonlyArray<MdxRenameCandidate>
+>;
+
+/**
+ * Markdown-native (mdast) node types that `renameMarkdown` can rewrite.
+ *
+ * These are the nodes plain Markdown produces for common block content
+ * (`paragraph`, `heading`, `list`, `blockquote`, `code`, `thematicBreak`)
+ * plus inline `image` nodes, and the `remark-directive` nodes
+ * (`containerDirective` `:::note`, `leafDirective` `::youtube`,
+ * `textDirective` `:abbr`).
+ */
+export type MdxMarkdownNodeType =
+  | 'paragraph'
+  | 'heading'
+  | 'list'
+  | 'blockquote'
+  | 'code'
+  | 'image'
+  | 'thematicBreak'
+  | 'containerDirective'
+  | 'leafDirective'
+  | 'textDirective';
+
+/**
+ * Per node type: the mdast fields a markdown rename target can narrow on.
+ *
+ * - `never` means the node type has no narrowing fields (`match` cannot be set).
+ * - Every listed field is optional; an omitted field matches any value.
+ * - Values are compared with strict equality against the mdast node field.
+ *
+ * Example:
+ *   { depth: 2 }    → only `## Heading` nodes
+ *   { lang: 'ts' }  → only fenced code blocks declared as ```ts
+ *   { name: 'youtube' } → only `::youtube` directives (under `leafDirective`)
+ */
+export type MdxMarkdownMatchByType = {
+  paragraph: never;
+  heading: { depth?: 1 | 2 | 3 | 4 | 5 | 6 };
+  list: { ordered?: boolean };
+  blockquote: never;
+  code: { lang?: string; meta?: string };
+  image: never;
+  thematicBreak: never;
+  containerDirective: { name?: string };
+  leafDirective: { name?: string };
+  textDirective: { name?: string };
+};
+
+/**
+ * Union of every markdown narrowing shape (the `match` field of any node type).
+ */
+export type MdxMarkdownMatch = MdxMarkdownMatchByType[MdxMarkdownNodeType];
+
+/**
+ * Rename target for a markdown node type.
+ *
+ * Same shape as `MdxRenameTarget`, plus an optional `match` that narrows which
+ * nodes of `Type` are rewritten (e.g. only `heading` nodes with `depth: 2`).
+ */
+export type MdxMarkdownRenameTarget<
+  Type extends MdxMarkdownNodeType = MdxMarkdownNodeType
+> = MdxRenameTarget & {
+  match?: MdxMarkdownMatchByType[Type];
+};
+
+/**
+ * Markdown rename map: mdast node type → rename target(s).
+ *
+ * A list of targets is evaluated in order and the first target whose `match`
+ * accepts the node wins. This allows several narrowings of the same node type:
+ *
+ *   renameMarkdown: {
+ *     heading: [
+ *       { component: { name: 'SectionTitle' }, match: { depth: 2 } },
+ *       { component: { name: 'SubsectionTitle' }, match: { depth: 3 } }
+ *     ]
+ *   }
+ */
+export type MdxMarkdownRenameMap = {
+  [Type in MdxMarkdownNodeType]?:
+    | MdxMarkdownRenameTarget<Type>
+    | ReadonlyArray<MdxMarkdownRenameTarget<Type>>;
+};
+
+/**
+ * Options of a `groupFlow` target.
+ */
+export type MdxGroupOptions = {
+  /**
+   * Smallest number of members a run needs to be grouped (default `1`).
+   * Shorter runs are left as-is.
+   */
+  minRunLength?: number;
+  /**
+   * Whether whitespace-only text between two members ends the run
+   * (default `false`: the blank text moves into the group with the members).
+   */
+  breakOnBlankText?: boolean;
+};
+
+/**
+ * Group target: the wrapper component that receives a run of members.
+ *
+ * Computed props receive the run's first member as source.
+ */
+export type MdxGroupTarget = MdxRenameTarget & {
+  groupOptions?: MdxGroupOptions;
+};
+
+/**
+ * Group map: selector key (as in `MdxRenameMap`) → group target.
+ */
+export type MdxGroupMap = Record<string, MdxGroupTarget>;
+
 export type MdxTransformRule = {
   /**
    * Rename JSX *flow* elements inside the scope subtree.
@@ -103,10 +453,421 @@ export type MdxTransformRule = {
    *     }
    *   }
    */
-  renameFlow?: Record<string, MdxRenameTarget>;
+  renameFlow?: MdxRenameMap;
+  /**
+   * Rename JSX *text* (inline) elements inside the scope subtree.
+   * Example:
+   *   renameText: {
+   *     br: {
+   *       component: { name: 'InlineBreak' },
+   *       transformOptions: { childrenPolicy: 'clear' }
+   *     }
+   *   }
+   */
+  renameText?: MdxRenameMap;
+  /**
+   * Rewrite Markdown-native nodes inside the scope subtree into JSX elements.
+   * Example:
+   *   renameMarkdown: {
+   *     paragraph: { component: { name: 'AlertParagraph', props: { variant: 'red' } } },
+   *     code: { component: { name: 'CodeBlock' }, match: { lang: 'ts' } }
+   *   }
+   */
+  renameMarkdown?: MdxMarkdownRenameMap;
+  /**
+   * Wrap matching JSX *flow* elements in a registry component (selector keys,
+   * as in `renameFlow`). The target describes the wrapper; its computed props
+   * receive the wrapped element as source.
+   * Example:
+   *   wrapFlow: { img: { component: { name: 'Figure' } } }
+   *   <img src="a.png" /> → <Figure><img src="a.png" /></Figure>
+   */
+  wrapFlow?: MdxRenameMap;
+  /**
+   * Replace matching JSX *flow* elements with their children (selectors).
+   * Example:
+   *   unwrapFlow: ['div']
+   *   <div><p>Hi</p></div> → <p>Hi</p>
+   */
+  unwrapFlow?: ReadonlyArray<string>;
+  /**
+   * Delete matching JSX *flow* elements, including their subtree (selectors).
+   * Example:
+   *   removeFlow: ['> hr']
+   */
+  removeFlow?: ReadonlyArray<string>;
+  /**
+   * Collect runs of adjacent JSX siblings matched by the same key (selectors)
+   * into one registry component. Flow runs get a flow wrapper; inline runs
+   * (e.g. `<Badge /> <Badge />` in a paragraph) get an inline wrapper.
+   * Example:
+   *   groupFlow: {
+   *     img: { component: { name: 'Gallery' }, groupOptions: { minRunLength: 2 } }
+   *   }
+   *   <img src="a.png" /> <img src="b.png" /> → <Gallery><img … /><img … /></Gallery>
+   */
+  groupFlow?: MdxGroupMap;
+  /**
+   * Insert registry components at the start of every scope element (in list
+   * order). Computed props receive the scope element as source.
+   * Example:
+   *   prependToScope: [{ component: { name: 'ScopeHeader' } }]
+   */
+  prependToScope?: ReadonlyArray<MdxRenameTarget>;
+  /**
+   * Insert registry components at the end of every scope element (in list
+   * order). Computed props receive the scope element as source.
+   * Example:
+   *   appendToScope: [{ component: { name: 'ScopeFooter' } }]
+   */
+  appendToScope?: ReadonlyArray<MdxRenameTarget>;
+  /**
+   * Alternative rename tables selected by the scope element's literal attributes.
+   *
+   * Resolution (per scope element):
+   * - Variants are checked in order; the first one whose `when` matches wins.
+   * - The winning variant's tables replace the tables above; a table it does
+   *   not declare falls back to the one above (the default table).
+   * - No matching variant → the tables above apply unchanged.
+   *
+   * Example:
+   *   renameFlow: { p: { component: { name: 'ArticleParagraph' } } },
+   *   variants: [
+   *     {
+   *       when: { variant: 'compact' },
+   *       rule: { renameFlow: { p: { component: { name: 'CompactParagraph' } } } }
+   *     }
+   *   ]
+   * `<ArticleScope variant="compact">` uses `CompactParagraph`; any other
+   * `<ArticleScope>` uses `ArticleParagraph`.
+   */
+  variants?: ReadonlyArray<MdxScopeVariant>;
+  /**
+   * Whether the scope's tables also apply inside nested scopes (see
+   * `MdxCascadeMode`; default `'isolate'`).
+   * Example:
+   *   ArticleScope: { renameFlow: { p: … }, cascade: 'inherit' }
+   *   <ArticleScope><Callout><p /></Callout></ArticleScope>
+   * renames the `<p>` unless `Callout` has its own `p` entry.
+   */
+  cascade?: MdxCascadeMode;
+  /**
+   * Registry key of a rule this rule builds on. Resolved into a flat rule by
+   * `defineComponents` / `deriveMdxTransformRegistry` (see
+   * `flattenTransformRules`); the plugin never sees it.
+   *
+   * - Keyed tables combine per key, this rule's entries replacing the base's.
+   * - Selector lists and insertions add up (base first).
+   * - `variants`: this rule's variants are checked before the base's.
+   * - `cascade`: this rule's, else the base's.
+   *
+   * Example:
+   *   BaseScope:   { renameFlow: { p: A, br: B } }
+   *   ArticleScope: { extends: 'BaseScope', renameFlow: { p: C }, omit: { renameFlow: ['br'] } }
+   *   → ArticleScope: { renameFlow: { p: C } }
+   */
+  extends?: string;
+  /**
+   * Entries of the `extends` base to drop before combining (see
+   * `MdxRuleOmissions`).
+   */
+  omit?: MdxRuleOmissions;
+};
+
+/**
+ * Entries of an extended rule to leave out (`MdxTransformRule.omit`), per
+ * table:
+ *
+ * - Selector keys (`renameFlow`, `renameText`, `wrapFlow`, `groupFlow`) and
+ *   selectors (`unwrapFlow`, `removeFlow`), as authored.
+ * - Node types (`renameMarkdown`).
+ * - Target component names (`prependToScope`, `appendToScope`).
+ */
+export type MdxRuleOmissions = {
+  renameFlow?: ReadonlyArray<string>;
+  renameText?: ReadonlyArray<string>;
+  renameMarkdown?: ReadonlyArray<MdxMarkdownNodeType>;
+  wrapFlow?: ReadonlyArray<string>;
+  unwrapFlow?: ReadonlyArray<string>;
+  removeFlow?: ReadonlyArray<string>;
+  groupFlow?: ReadonlyArray<string>;
+  prependToScope?: ReadonlyArray<string>;
+  appendToScope?: ReadonlyArray<string>;
+};
+
+/**
+ * How a scope's tables reach nested scopes (`MdxTransformRule.cascade`).
+ *
+ * - `'isolate'`: nested scopes are boundaries; the tables stop there.
+ * - `'inherit'`: the tables keep applying inside nested scopes, except for the
+ *   source tags (selector subjects) and markdown node types a nested scope
+ *   has its own entries for.
+ * - `'merge'`: the tables combine with the nested scopes' tables; matching
+ *   selectors compete by specificity and the nested scope wins ties and
+ *   identical keys (as in CSS).
+ *
+ * Cascaded tables are applied by the nested scope (messages name it,
+ * structural selectors and scope attributes refer to it) and pass on to
+ * deeper scopes, through isolating ones too; they do not reach into opaque
+ * components. `prependToScope` / `appendToScope` never cascade.
+ */
+export type MdxCascadeMode = 'isolate' | 'inherit' | 'merge';
+
+/**
+ * The tables of a scope rule (everything except `variants`, `cascade` and
+ * `extends` / `omit`; the part a scope variant can replace).
+ */
+export type MdxScopeRuleTables = Omit<
+  MdxTransformRule,
+  'variants' | 'cascade' | 'extends' | 'omit'
+>;
+
+/**
+ * A scope rule variant (see `MdxTransformRule.variants`).
+ */
+export type MdxScopeVariant = {
+  /**
+   * Literal scope attribute values that must all be present and equal
+   * (`{ variant: 'compact' }` matches `<ArticleScope variant="compact">`).
+   * An empty `when` matches every scope element.
+   */
+  when: Readonly<Record<string, MdxSourceAttributeValue>>;
+  /**
+   * Rename tables used when the variant wins.
+   */
+  rule: MdxScopeRuleTables;
 };
 
 /**
  * Map of scope component name -> transform rule.
  */
 export type ScopedMdxTransformRegistry = Record<string, MdxTransformRule>;
+
+/**
+ * Options of `remarkScopedMdx` (second plugin argument).
+ */
+export type ScopedMdxPluginOptions = {
+  /**
+   * Also emit the file's used component names (see
+   * `ScopedMdxFileData.usedComponents`) as an ESM export.
+   *
+   * - `true`: `export const scopedComponents = [...]`
+   * - a string: the same export under that name
+   * - `false` / `undefined`: no export
+   */
+  exportUsedComponents?: boolean | string;
+  /**
+   * Known component names (typically the component registry's keys). Lets
+   * registry validation report targets that are not registered components.
+   */
+  componentNames?: Iterable<string>;
+  /**
+   * What to do when `validateRegistry` reports problems when the plugin is
+   * created.
+   *
+   * - `"warn"` / `undefined`: report each problem as a warning on every
+   *   processed file (ruleId `scoped-mdx:registry`).
+   * - `"throw"`: throw one error listing every problem.
+   */
+  onInvalid?: 'throw' | 'warn';
+  /**
+   * - `"apply"` / `undefined`: rewrite the tree.
+   * - `"report"`: leave the tree unchanged and store the rewrites apply mode
+   *   would make on `file.data.scopedMdx.plan` (e.g. to review the effect of
+   *   a registry change on existing content).
+   */
+  mode?: 'apply' | 'report';
+  /**
+   * Fail the file when a scope contains a JSX component (not a lowercase
+   * tag) outside `componentNames`. Requires `componentNames`.
+   */
+  strict?: boolean;
+  /**
+   * Scope name → the only components and tags allowed inside that scope
+   * (nested scopes are checked against their own entry). Anything else is
+   * reported as a warning. Keys must be configured scopes.
+   *
+   * JSX elements are checked by their authored name; Markdown nodes only
+   * when `renameMarkdown` replaces them, by the target's name.
+   *
+   * Example: `{ Callout: ['p', 'a', 'CalloutIcon'] }`
+   */
+  allowedInScope?: Record<string, ReadonlyArray<string>>;
+  /**
+   * Scope name → sandbox for untrusted content inside that scope (`true` for
+   * the defaults, see `MdxSandboxOptions`). Requires `componentNames`; keys
+   * must be configured scopes.
+   *
+   * Example: `{ PartnerScope: { expressions: 'reject' } }`
+   */
+  sandbox?: Record<string, true | MdxSandboxOptions>;
+  /**
+   * Globs a file's path (relative to `file.cwd`) must match for scopes to be
+   * processed, e.g. `['content/**\/*.mdx']`. Files without a path are skipped
+   * when set.
+   */
+  includeFiles?: ReadonlyArray<string>;
+  /**
+   * Globs of file paths whose scopes are not processed (applied after
+   * `includeFiles`), e.g. `['**\/drafts/**']`.
+   */
+  excludeFiles?: ReadonlyArray<string>;
+  /**
+   * Components whose content no enclosing scope rewrites, e.g. `['Raw',
+   * 'CodeSample', 'LiveEditor']` (typically `deriveOpaqueComponentNames` of
+   * the component registry). They are left as authored, with their subtree;
+   * unlike scopes they have no rules, and scopes nested inside them still
+   * apply their own. Names must not be configured scopes.
+   */
+  opaqueComponents?: Iterable<string>;
+  /**
+   * Scope applied to the whole document, as if its content were inside
+   * `<ArticleScope>`; explicit scopes in it stay nested scopes. A file's
+   * frontmatter `scopedMdx.scope` takes precedence (see
+   * `ScopedMdxFrontmatter`). Must be a configured scope.
+   */
+  rootScope?: string;
+  /**
+   * Also wrap the document's content (everything but ESM and frontmatter
+   * nodes) in the root scope element, so the scope component renders too.
+   */
+  wrapRootScope?: boolean;
+  /**
+   * Reads a file's parsed frontmatter (default: `file.data.matter`, as set
+   * by `vfile-matter`). Its `scopedMdx` key configures the plugin per file.
+   * When it returns `undefined`, the tree's `yaml` node (added by
+   * `remark-frontmatter`) is parsed instead.
+   */
+  readFrontmatter?: (file: VFile) => unknown;
+  /**
+   * Container and leaf directives (`remark-directive`) that act as scopes:
+   * directive name → scope component, e.g. `{ note: 'Callout' }` for
+   * `:::note`. A directive named like a configured scope (`:::Callout`) is
+   * one without an entry. Values must be configured scopes.
+   */
+  directiveScopes?: Readonly<Record<string, string>>;
+};
+
+/**
+ * Sandbox of a scope (see `ScopedMdxPluginOptions.sandbox`).
+ *
+ * Inside a sandboxed scope, before any rewrite:
+ * - `on*` and `dangerouslySetInnerHTML` attributes are removed.
+ * - JSX elements outside `componentNames` (lowercase tags included) are
+ *   removed with their subtree.
+ * - MDX expressions (`{value}`) and expression attributes (`{...props}`,
+ *   `href={url}`) are handled as set by `expressions`.
+ *
+ * Every removal is reported as a `scoped-mdx:sandbox` message.
+ */
+export type MdxSandboxOptions = {
+  /**
+   * - `"strip"` / `undefined`: remove them (warning messages).
+   * - `"reject"`: fail the file at the first one.
+   */
+  expressions?: 'strip' | 'reject';
+};
+
+/**
+ * One rewrite planned in `mode: "report"`.
+ *
+ * Example (`renameFlow.p` in a `Callout` scope):
+ * ```ts
+ * {
+ *   ruleId: 'scoped-mdx:rename',
+ *   source: 'p',
+ *   target: 'CalloutParagraph',
+ *   scope: 'Callout',
+ *   position: { start: { line: 3, column: 1, offset: 18 }, end: { ... } },
+ *   props: { tone: 'info' },
+ *   childrenPolicy: 'preserve',
+ *   message: 'Renamed <p> to <CalloutParagraph>'
+ * }
+ * ```
+ */
+export type ScopedMdxPlannedRewrite = {
+  /**
+   * Kind of rewrite, as the `ruleId` of its message (see `scopedMdxRuleIds`).
+   */
+  ruleId: ScopedMdxRuleId;
+  /**
+   * Source element name or markdown node type; the scope name for
+   * `prependToScope` / `appendToScope` insertions.
+   */
+  source: string;
+  /**
+   * Target component name (absent for `removeFlow` / `unwrapFlow`).
+   */
+  target?: string;
+  /**
+   * Scope component whose rule makes the rewrite.
+   */
+  scope: string;
+  /**
+   * Position of the source node (of the first member for groups, of the scope
+   * element for insertions).
+   */
+  position?: Position;
+  /**
+   * The attributes the rewritten element ends up with, as props: computed
+   * props resolved, plus source attributes kept by the attribute policy,
+   * inherited scope attributes and merged class names. Runtime-only values
+   * (`id={x}`, spreads) are left out.
+   */
+  props?: Record<string, MdxPropValue>;
+  childrenPolicy?: 'preserve' | 'clear';
+  /**
+   * The rewrite's message reason, without the scope suffix.
+   */
+  message: string;
+};
+
+/**
+ * Per-file settings under the frontmatter key `scopedMdx` (see
+ * `ScopedMdxPluginOptions.readFrontmatter`).
+ *
+ * Example:
+ * ```yaml
+ * scopedMdx:
+ *   scope: ArticleScope
+ *   disable: [AlertParagraph]
+ * ```
+ */
+export type ScopedMdxFrontmatter = {
+  /**
+   * Root scope of the document (overrides `rootScope`).
+   */
+  scope?: string;
+  /**
+   * Scope or target component names whose rewrites are turned off in this
+   * document (see `createScopeTablesFilter`).
+   */
+  disable?: string[];
+  /**
+   * Scope or target component names whose rewrites are the only ones turned
+   * on in this document; `disable` still applies.
+   */
+  only?: string[];
+};
+
+/**
+ * Per-file results stored on `file.data.scopedMdx`.
+ */
+export type ScopedMdxFileData = {
+  /**
+   * Sorted JSX element names of the file *after* rewrites (flow and inline,
+   * including lowercase tags), e.g. the input for `expandHydratedComponentNames`
+   * or `getLoadableComponentsFromSet`.
+   */
+  usedComponents: string[];
+  /**
+   * Planned rewrites, in the order they would be made (only in `mode: "report"`).
+   */
+  plan?: ScopedMdxPlannedRewrite[];
+};
+
+declare module 'vfile' {
+  interface DataMap {
+    scopedMdx: ScopedMdxFileData;
+  }
+}
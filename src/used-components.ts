@@ -0,0 +1,102 @@
+import type { Node } from 'unist';
+import type { Program } from 'estree';
+
+import { valueToEstree } from 'estree-util-value-to-estree';
+import { visit } from 'unist-util-visit';
+
+import { isMdxExpressionNode, mirrorExpressionJsx } from './expression-jsx';
+
+/**
+ * Default export name used when `exportUsedComponents` is `true`.
+ */
+export const DEFAULT_USED_COMPONENTS_EXPORT = 'scopedComponents';
+
+/**
+ * ESM node (`mdxjsEsm`) carrying a single export statement.
+ */
+type MdxjsEsmNode = Node & {
+  type: 'mdxjsEsm';
+  value: string;
+  data: { estree: Program };
+};
+
+/**
+ * Collects the JSX element names of a (transformed) tree.
+ *
+ * - Flow and text elements are both counted; fragments (`name: null`) are not.
+ * - JSX inside MDX expressions (`{cond && <Badge />}`) is counted too.
+ * - Lowercase tags (`p`, `img`) are included too, since MDX `components` can
+ *   override them; intrinsic names are filtered out by registry lookups.
+ *
+ * @param tree - The tree after all scoped rewrites.
+ * @returns Sorted, de-duplicated element names.
+ */
+export function collectUsedComponents(tree: Node): string[] {
+  const names = new Set<string>();
+
+  const addNames = (root: Node) =>
+    visit(root, node => {
+      if (isMdxExpressionNode(node)) {
+        const mirror = mirrorExpressionJsx(node);
+        if (mirror) addNames(mirror.root);
+        return;
+      }
+
+      if (
+        node.type !== 'mdxJsxFlowElement' &&
+        node.type !== 'mdxJsxTextElement'
+      ) {
+        return;
+      }
+
+      const name = (node as Node & { name: string | null }).name;
+      if (name) names.add(name);
+    });
+  addNames(tree);
+
+  return [...names].sort();
+}
+
+/**
+ * Builds `export const <exportName> = [...]` as an `mdxjsEsm` node.
+ *
+ * As with attribute expressions (see `createAttributeValueExpression`),
+ * `data.estree` is authoritative; `value` mirrors it for printers.
+ *
+ * @param exportName - Name of the exported constant.
+ * @param usedComponents - Names to export (see `collectUsedComponents`).
+ */
+export function createUsedComponentsExport(
+  exportName: string,
+  usedComponents: ReadonlyArray<string>
+): MdxjsEsmNode {
+  return {
+    type: 'mdxjsEsm',
+    value: `export const ${exportName} = ${JSON.stringify(usedComponents)};`,
+    data: {
+      estree: {
+        type: 'Program',
+        sourceType: 'module',
+        body: [
+          {
+            type: 'ExportNamedDeclaration',
+            declaration: {
+              type: 'VariableDeclaration',
+              kind: 'const',
+              declarations: [
+                {
+                  type: 'VariableDeclarator',
+                  id: { type: 'Identifier', name: exportName },
+                  init: valueToEstree([...usedComponents])
+                }
+              ]
+            },
+            specifiers: [],
+            source: null,
+            attributes: []
+          }
+        ]
+      }
+    }
+  };
+}
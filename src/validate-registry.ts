@@ -0,0 +1,280 @@
+import { valueToEstree } from 'estree-util-value-to-estree';
+
+import type {
+  MdxRenameTarget,
+  MdxScopeRuleTables,
+  ScopedMdxTransformRegistry
+} from './types';
+import { isRenameCandidateList } from './rename-candidates';
+import { isScopeRuleConfigured } from './scope-rule';
+import { selectorSubjectName } from './selectors';
+
+/**
+ * Kinds of registry problems reported by `validateRegistry`.
+ *
+ * - `invalid-selector`: a selector key (or list entry) does not parse.
+ * - `unknown-target`: a target names a component outside `componentNames`.
+ * - `scope-target`: a target is itself a scope, so the rewritten element
+ *   becomes a nested scope boundary (and gets its own rules applied).
+ * - `self-rename`: a `renameFlow` / `renameText` target has the name its
+ *   selector already requires.
+ * - `clear-needs-children`: `childrenPolicy: 'clear'` on a target that exists
+ *   to hold children (`wrapFlow` / `groupFlow` wrappers, scope targets).
+ * - `unserializable-prop`: a static prop value cannot be emitted as an
+ *   attribute expression (`valueToEstree` rejects it, e.g. functions).
+ */
+export type MdxRegistryProblemCode =
+  | 'invalid-selector'
+  | 'unknown-target'
+  | 'scope-target'
+  | 'self-rename'
+  | 'clear-needs-children'
+  | 'unserializable-prop';
+
+/**
+ * One problem found by `validateRegistry`.
+ */
+export type MdxRegistryProblem = {
+  code: MdxRegistryProblemCode;
+  /**
+   * Scope component whose rule has the problem.
+   */
+  scope: string;
+  /**
+   * Table within the rule, e.g. `renameFlow` or `variants[1].renameText`.
+   */
+  table: string;
+  /**
+   * Entry within the table: selector, mdast node type or list index.
+   */
+  key: string;
+  /**
+   * Target component name (for target problems).
+   */
+  target?: string;
+  /**
+   * Human-readable description, prefixed with the location.
+   */
+  message: string;
+};
+
+export type ValidateRegistryOptions = {
+  /**
+   * Known component names (typically the component registry's keys).
+   * Enables the `unknown-target` check.
+   */
+  componentNames?: Iterable<string>;
+};
+
+type TargetSite = {
+  table: keyof MdxScopeRuleTables;
+  key: string;
+  target: MdxRenameTarget;
+};
+
+/**
+ * Lists every target of one rule's tables with its table and key.
+ */
+function listTargets(tables: MdxScopeRuleTables): TargetSite[] {
+  const sites: TargetSite[] = [];
+
+  for (const table of ['renameFlow', 'renameText', 'wrapFlow'] as const) {
+    for (const [key, entry] of Object.entries(tables[table] ?? {})) {
+      const targets = isRenameCandidateList(entry)
+        ? entry.map(candidate => candidate.to)
+        : [entry];
+      for (const target of targets) sites.push({ table, key, target });
+    }
+  }
+
+  for (const [key, target] of Object.entries(tables.groupFlow ?? {})) {
+    sites.push({ table: 'groupFlow', key, target });
+  }
+
+  for (const [key, entry] of Object.entries(tables.renameMarkdown ?? {})) {
+    const targets: ReadonlyArray<MdxRenameTarget> = Array.isArray(entry)
+      ? entry
+      : [entry];
+    for (const target of targets) {
+      sites.push({ table: 'renameMarkdown', key, target });
+    }
+  }
+
+  for (const table of ['prependToScope', 'appendToScope'] as const) {
+    (tables[table] ?? []).forEach((target, index) =>
+      sites.push({ table, key: String(index), target })
+    );
+  }
+
+  return sites;
+}
+
+/**
+ * Lists every selector of one rule's tables (keys and list entries).
+ */
+function listSelectors(
+  tables: MdxScopeRuleTables
+): Array<{ table: keyof MdxScopeRuleTables; key: string }> {
+  const selectors: Array<{ table: keyof MdxScopeRuleTables; key: string }> = [];
+
+  for (const table of [
+    'renameFlow',
+    'renameText',
+    'wrapFlow',
+    'groupFlow'
+  ] as const) {
+    for (const key of Object.keys(tables[table] ?? {})) {
+      selectors.push({ table, key });
+    }
+  }
+
+  for (const table of ['unwrapFlow', 'removeFlow'] as const) {
+    for (const key of tables[table] ?? []) selectors.push({ table, key });
+  }
+
+  return selectors;
+}
+
+/**
+ * Returns the name of the first static prop `valueToEstree` cannot encode.
+ * Computed props are only known per source element and are not checked.
+ */
+function findUnserializableProp(target: MdxRenameTarget): string | undefined {
+  const props = target.component.props;
+  if (!props || typeof props === 'function') return undefined;
+
+  for (const [name, value] of Object.entries(props)) {
+    // Same encoding rules as `toMdxAttribute`: `undefined` is skipped and
+    // `true` becomes boolean presence.
+    if (value === undefined || value === true) continue;
+
+    try {
+      valueToEstree(value);
+    } catch {
+      return name;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Checks a scoped transform registry for configuration mistakes that the
+ * typed authoring API rules out, but untyped configs (JavaScript, JSON-loaded
+ * registries) can contain. See `MdxRegistryProblemCode` for the checks.
+ *
+ * Every table of every rule is checked, including `variants` tables.
+ *
+ * Example:
+ * ```ts
+ * validateRegistry(
+ *   { Callout: { renameFlow: { p: { component: { name: 'CalloutPara' } } } } },
+ *   { componentNames: ['Callout', 'CalloutParagraph'] }
+ * );
+ * // -> [{ code: 'unknown-target', scope: 'Callout', table: 'renameFlow',
+ * //       key: 'p', target: 'CalloutPara', message: '...' }]
+ * ```
+ *
+ * @param registry - Mapping of scope component name → transform rule.
+ * @param options - Optional known component names.
+ * @returns The problems found (empty when the registry is valid).
+ */
+export function validateRegistry(
+  registry: ScopedMdxTransformRegistry,
+  options: ValidateRegistryOptions = {}
+): MdxRegistryProblem[] {
+  const componentNames =
+    options.componentNames && new Set(options.componentNames);
+  const problems: MdxRegistryProblem[] = [];
+
+  const isScope = (name: string): boolean => {
+    const rule = Object.hasOwn(registry, name) ? registry[name] : undefined;
+    return rule !== undefined && isScopeRuleConfigured(rule);
+  };
+
+  for (const [scope, rule] of Object.entries(registry)) {
+    const ruleTables: Array<[prefix: string, tables: MdxScopeRuleTables]> = [
+      ['', rule],
+      ...(rule.variants ?? []).map(
+        (variant, index): [string, MdxScopeRuleTables] => [
+          `variants[${index}].`,
+          variant.rule
+        ]
+      )
+    ];
+
+    for (const [prefix, tables] of ruleTables) {
+      const report = (
+        problem: Omit<MdxRegistryProblem, 'scope' | 'message'>,
+        description: string
+      ) =>
+        problems.push({
+          ...problem,
+          table: `${prefix}${problem.table}`,
+          scope,
+          message: `"${scope}" ${prefix}${problem.table}["${problem.key}"]: ${description}`
+        });
+
+      // Selector subjects, kept for the self-rename check.
+      const subjects = new Map<string, string | null>();
+      for (const { table, key } of listSelectors(tables)) {
+        try {
+          subjects.set(key, selectorSubjectName(key));
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          report({ code: 'invalid-selector', table, key }, message);
+        }
+      }
+
+      for (const { table, key, target } of listTargets(tables)) {
+        const name = target.component.name;
+        const site = { table, key, target: name };
+
+        if (componentNames && !componentNames.has(name)) {
+          report(
+            { code: 'unknown-target', ...site },
+            `target "${name}" is not a registered component`
+          );
+        }
+
+        if (isScope(name)) {
+          report(
+            { code: 'scope-target', ...site },
+            `target "${name}" is a scope; rewritten elements become nested scope boundaries`
+          );
+        }
+
+        if (
+          (table === 'renameFlow' || table === 'renameText') &&
+          subjects.get(key) === name
+        ) {
+          report(
+            { code: 'self-rename', ...site },
+            `renames "${name}" to itself`
+          );
+        }
+
+        if (
+          target.transformOptions?.childrenPolicy === 'clear' &&
+          (table === 'wrapFlow' || table === 'groupFlow' || isScope(name))
+        ) {
+          report(
+            { code: 'clear-needs-children', ...site },
+            `childrenPolicy "clear" on "${name}", which needs its children`
+          );
+        }
+
+        const prop = findUnserializableProp(target);
+        if (prop !== undefined) {
+          report(
+            { code: 'unserializable-prop', ...site },
+            `prop "${prop}" of "${name}" cannot be serialized into an attribute expression`
+          );
+        }
+      }
+    }
+  }
+
+  return problems;
+}
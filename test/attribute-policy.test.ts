@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compile } from '@mdx-js/mdx';
+
+import { remarkScopedMdx } from '../src/plugin';
+import type { MdxAttributePolicy } from '../src/types';
+
+const source =
+  '<Scope>\n<p id="intro" className="lead" data-x="1" {...rest}>Hi</p>\n</Scope>';
+
+const renameWith = async (
+  attributePolicy: MdxAttributePolicy | undefined
+): Promise<string> => {
+  const output = String(
+    await compile(source, {
+      jsx: true,
+      remarkPlugins: [
+        [
+          remarkScopedMdx,
+          {
+            Scope: {
+              renameFlow: {
+                p: {
+                  component: {
+                    name: 'Target',
+                    props: { className: 'alert', id: 'target' }
+                  },
+                  transformOptions: { attributePolicy }
+                }
+              }
+            }
+          }
+        ]
+      ]
+    })
+  );
+
+  const [element = ''] = output.match(/<Target[^>]*>/) ?? [];
+  return element;
+};
+
+test('replace (the default) emits the target props only', async () => {
+  const expected = '<Target className={"alert"} id={"target"}>';
+
+  assert.equal(await renameWith(undefined), expected);
+  assert.equal(await renameWith('replace'), expected);
+});
+
+test('preserve-source keeps the source attributes only', async () => {
+  assert.equal(
+    await renameWith('preserve-source'),
+    '<Target id="intro" className="lead" data-x="1" {...rest}>'
+  );
+});
+
+test('merge modes merge class tokens and pick the collision winner', async () => {
+  assert.equal(
+    await renameWith('merge-target-wins'),
+    '<Target data-x="1" {...rest} className={"lead alert"} id={"target"}>'
+  );
+  assert.equal(
+    await renameWith('merge-source-wins'),
+    '<Target className={"lead alert"} id="intro" data-x="1" {...rest}>'
+  );
+});
+
+test('allow and deny filter source attributes by name', async () => {
+  assert.equal(
+    await renameWith({ mode: 'merge-source-wins', allow: ['id'] }),
+    '<Target className={"alert"} id="intro" {...rest}>'
+  );
+  assert.equal(
+    await renameWith({
+      mode: 'merge-target-wins',
+      deny: ['data-x'],
+      spreads: 'drop'
+    }),
+    '<Target className={"lead alert"} id={"target"}>'
+  );
+});
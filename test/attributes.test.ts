@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { MdxJsxAttribute } from 'mdast-util-mdx-jsx';
+
+import { resolveAttributes } from '../src/attributes';
+
+const attribute = (name: string, value: string): MdxJsxAttribute => ({
+  type: 'mdxJsxAttribute',
+  name,
+  value
+});
+
+const names = (attributes: ReadonlyArray<{ type: string; name?: string }>) =>
+  attributes.map(entry => entry.name);
+
+test('preserve-source keeps inherited scope attributes', () => {
+  const resolved = resolveAttributes(
+    [attribute('id', 'intro')],
+    { variant: 'red' },
+    'preserve-source',
+    [attribute('tone', 'warning')]
+  );
+
+  assert.deepEqual(resolved, [
+    attribute('id', 'intro'),
+    attribute('tone', 'warning')
+  ]);
+});
+
+test('preserve-source lets inherited attributes replace source ones', () => {
+  const resolved = resolveAttributes(
+    [attribute('tone', 'info'), attribute('id', 'intro')],
+    undefined,
+    'preserve-source',
+    [attribute('tone', 'warning')]
+  );
+
+  assert.deepEqual(names(resolved), ['id', 'tone']);
+  assert.deepEqual(resolved.at(-1), attribute('tone', 'warning'));
+});
+
+test('replace emits inherited attributes over target props', () => {
+  const resolved = resolveAttributes(
+    [attribute('id', 'intro')],
+    { tone: 'info', variant: 'red' },
+    'replace',
+    [attribute('tone', 'warning')]
+  );
+
+  assert.deepEqual(names(resolved), ['variant', 'tone']);
+  assert.deepEqual(resolved.at(-1), attribute('tone', 'warning'));
+});
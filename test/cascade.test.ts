@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compile } from '@mdx-js/mdx';
+
+import { remarkScopedMdx } from '../src/plugin';
+import type {
+  MdxCascadeMode,
+  MdxRenameMap,
+  ScopedMdxTransformRegistry
+} from '../src/types';
+
+const compileNested = async (
+  cascade: MdxCascadeMode | undefined,
+  articleRenameFlow: MdxRenameMap
+): Promise<string> => {
+  const registry: ScopedMdxTransformRegistry = {
+    Article: {
+      cascade,
+      renameFlow: articleRenameFlow,
+      renameText: { br: { component: { name: 'Break' } } }
+    },
+    Callout: { renameFlow: { p: { component: { name: 'CalloutParagraph' } } } }
+  };
+
+  return String(
+    await compile(
+      '<Article>\n<Callout>\n<p>a<br/></p>\n<aside>\n<p>b</p>\n</aside>\n<blockquote>c</blockquote>\n</Callout>\n</Article>',
+      { jsx: true, remarkPlugins: [[remarkScopedMdx, registry]] }
+    )
+  );
+};
+
+const articleRenameFlow: MdxRenameMap = {
+  blockquote: { component: { name: 'Quote' } },
+  'aside p': { component: { name: 'AsideParagraph' } }
+};
+
+test('isolate (the default) stops at nested scopes', async () => {
+  for (const cascade of [undefined, 'isolate'] as const) {
+    const output = await compileNested(cascade, articleRenameFlow);
+
+    assert.match(
+      output,
+      /<CalloutParagraph>\{"a"\}<br \/><\/CalloutParagraph>/
+    );
+    assert.match(output, /<blockquote>\{"c"\}<\/blockquote>/);
+  }
+});
+
+test('inherit applies the tables inside nested scopes without overrides', async () => {
+  const output = await compileNested('inherit', articleRenameFlow);
+
+  assert.match(
+    output,
+    /<CalloutParagraph>\{"a"\}<Break \/><\/CalloutParagraph>/
+  );
+  assert.match(
+    output,
+    /<aside><CalloutParagraph>\{"b"\}<\/CalloutParagraph><\/aside>/
+  );
+  assert.match(output, /<Quote>\{"c"\}<\/Quote>/);
+});
+
+test('merge lets more specific outer selectors win', async () => {
+  const output = await compileNested('merge', articleRenameFlow);
+
+  assert.match(
+    output,
+    /<CalloutParagraph>\{"a"\}<Break \/><\/CalloutParagraph>/
+  );
+  assert.match(
+    output,
+    /<aside><AsideParagraph>\{"b"\}<\/AsideParagraph><\/aside>/
+  );
+  assert.match(output, /<Quote>\{"c"\}<\/Quote>/);
+});
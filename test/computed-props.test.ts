@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compile } from '@mdx-js/mdx';
+
+import { remarkScopedMdx } from '../src/plugin';
+import type { MdxRenameSource, ScopedMdxTransformRegistry } from '../src/types';
+
+test('computed props read the source and its scope at compile time', async () => {
+  const sources: MdxRenameSource[] = [];
+  const registry: ScopedMdxTransformRegistry = {
+    Article: {
+      renameFlow: {
+        h2: {
+          component: {
+            name: 'Section',
+            props: source => {
+              sources.push(source);
+              return { title: source.text, anchor: source.attributes.id };
+            }
+          },
+          transformOptions: { childrenPolicy: 'clear' }
+        }
+      }
+    }
+  };
+
+  const output = String(
+    await compile(
+      '<Article tone="info">\n<p>Intro</p>\n<h2 id="a" hidden>Getting `started`</h2>\n</Article>',
+      { jsx: true, remarkPlugins: [[remarkScopedMdx, registry]] }
+    )
+  );
+
+  assert.match(
+    output,
+    /<Section title=\{"Getting started"\} anchor=\{"a"\} \/>/
+  );
+  assert.deepEqual(sources, [
+    {
+      name: 'h2',
+      attributes: { id: 'a', hidden: true },
+      text: 'Getting started',
+      index: 1,
+      scope: { name: 'Article', attributes: { tone: 'info' } }
+    }
+  ]);
+});
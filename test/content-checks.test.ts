@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compile } from '@mdx-js/mdx';
+
+import { remarkScopedMdx } from '../src/plugin';
+import type { ScopedMdxTransformRegistry } from '../src/types';
+
+const registry: ScopedMdxTransformRegistry = {
+  Callout: {
+    renameMarkdown: {
+      paragraph: { component: { name: 'Lead' } },
+      heading: { component: { name: 'Title' } }
+    }
+  }
+};
+
+test('allowedInScope checks the targets of Markdown renames', async () => {
+  const file = await compile(
+    '<Callout>\n\n## Intro\n\nHello\n\n- item\n\n</Callout>',
+    {
+      remarkPlugins: [
+        [
+          remarkScopedMdx,
+          registry,
+          { allowedInScope: { Callout: ['Lead', 'li'] } }
+        ]
+      ]
+    }
+  );
+
+  assert.deepEqual(
+    file.messages
+      .filter(message => message.ruleId === 'scoped-mdx:not-allowed')
+      .map(message => message.reason),
+    ['<Title> (from heading) is not allowed in <Callout> (scope "Callout")']
+  );
+});
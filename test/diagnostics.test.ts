@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compile } from '@mdx-js/mdx';
+import type { VFile } from 'vfile';
+
+import { remarkScopedMdx } from '../src/plugin';
+import type { ScopedMdxTransformRegistry } from '../src/types';
+
+const compileScoped = (source: string, registry: ScopedMdxTransformRegistry) =>
+  compile(source, { jsx: true, remarkPlugins: [[remarkScopedMdx, registry]] });
+
+test('rewrites and skipped nested scopes are reported at their source', async () => {
+  const file = await compileScoped(
+    '<Article>\n<p>Hi</p>\n<Callout>\n<p>Kept</p>\n</Callout>\n</Article>',
+    {
+      Article: { renameFlow: { p: { component: { name: 'Paragraph' } } } },
+      Callout: {}
+    }
+  );
+
+  assert.deepEqual(
+    file.messages.map(message => [
+      message.ruleId,
+      message.source,
+      message.reason,
+      message.line,
+      message.column
+    ]),
+    [
+      [
+        'scoped-mdx:rename',
+        'remark-scoped-mdx',
+        'Renamed <p> to <Paragraph> (scope "Article")',
+        2,
+        1
+      ],
+      [
+        'scoped-mdx:nested-scope',
+        'remark-scoped-mdx',
+        'Skipped nested scope <Callout> (scope "Article")',
+        3,
+        1
+      ]
+    ]
+  );
+});
+
+test('a prop that cannot be serialized fails at the source element', async () => {
+  await assert.rejects(
+    compileScoped('<Article>\n\n<p>Hi</p>\n</Article>', {
+      Article: {
+        renameFlow: {
+          p: { component: { name: 'Paragraph', props: { format: () => 1 } } }
+        }
+      }
+    }),
+    (error: VFile['messages'][number]) => {
+      assert.equal(error.ruleId, 'scoped-mdx:serialize');
+      assert.equal(error.fatal, true);
+      assert.equal(error.line, 3);
+      assert.equal(error.column, 1);
+      assert.match(error.reason, /prop "format".*\(scope "Article"\)$/);
+      return true;
+    }
+  );
+});
@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compile } from '@mdx-js/mdx';
+import remarkDirective from 'remark-directive';
+
+import { remarkScopedMdx } from '../src/plugin';
+import type {
+  ScopedMdxPluginOptions,
+  ScopedMdxTransformRegistry
+} from '../src/types';
+
+const registry: ScopedMdxTransformRegistry = {
+  Callout: {
+    renameMarkdown: {
+      paragraph: { component: { name: 'Lead' } },
+      leafDirective: {
+        component: {
+          name: 'YouTube',
+          props: source => ({ videoId: String(source.attributes.id) })
+        },
+        match: { name: 'youtube' }
+      },
+      textDirective: { component: { name: 'Abbr' }, match: { name: 'abbr' } }
+    }
+  }
+};
+
+const compileScoped = (source: string, options?: ScopedMdxPluginOptions) =>
+  compile(source, {
+    jsx: true,
+    remarkPlugins: [remarkDirective, [remarkScopedMdx, registry, options]]
+  });
+
+test('a container directive named like a scope is a scope root', async () => {
+  const file = await compileScoped(':::Callout\nHi\n:::');
+
+  assert.match(String(file), /<Callout><Lead>\{"Hi"\}<\/Lead><\/Callout>/);
+  assert.equal(
+    file.messages[0]?.reason,
+    'Renamed :::Callout to <Callout> (scope "Callout")'
+  );
+});
+
+test('directiveScopes maps a directive name and keeps its attributes', async () => {
+  const file = await compileScoped(':::note{tone=warning}\nHi\n:::', {
+    directiveScopes: { note: 'Callout' }
+  });
+
+  assert.match(
+    String(file),
+    /<Callout tone="warning"><Lead>\{"Hi"\}<\/Lead><\/Callout>/
+  );
+});
+
+test('directiveScopes rejects a name that is not a configured scope', async () => {
+  await assert.rejects(
+    async () => compileScoped('Hi', { directiveScopes: { note: 'Aside' } }),
+    /directiveScopes: "note" maps to "Aside", which is not a configured scope/
+  );
+});
+
+test('leaf and text directives are renameMarkdown sources', async () => {
+  const output = String(
+    await compileScoped(
+      ':::Callout\n::youtube{id=abc}\n\n::vimeo{id=x}\n\nAn :abbr[HTML]{title="x"} tag\n:::'
+    )
+  );
+
+  assert.match(output, /<YouTube id="abc" videoId=\{"abc"\} \/>/);
+  assert.match(output, /<_components\.div \/>/);
+  assert.match(output, /<Abbr title="x">\{"HTML"\}<\/Abbr>/);
+});
+
+test('directives outside scopes are left alone', async () => {
+  const output = String(await compileScoped('::youtube{id=abc}'));
+
+  assert.doesNotMatch(output, /YouTube/);
+});
+
+test('a container label stays as authored', async () => {
+  const output = String(await compileScoped(':::Callout[Heads up]\nBody\n:::'));
+
+  assert.match(
+    output,
+    /<Callout><_components\.p>\{"Heads up"\}<\/_components\.p><Lead>\{"Body"\}<\/Lead><\/Callout>/
+  );
+});
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compile } from '@mdx-js/mdx';
+
+import { remarkScopedMdx } from '../src/plugin';
+import type {
+  ScopedMdxPluginOptions,
+  ScopedMdxTransformRegistry
+} from '../src/types';
+
+const registry: ScopedMdxTransformRegistry = {
+  Callout: {
+    renameFlow: { p: { component: { name: 'CalloutParagraph' } } }
+  }
+};
+
+const compileScoped = async (
+  source: string,
+  options: ScopedMdxPluginOptions = {}
+) =>
+  compile(source, {
+    jsx: true,
+    remarkPlugins: [[remarkScopedMdx, registry, options]]
+  });
+
+test('JSX inside an expression is renamed like authored JSX', async () => {
+  const file = await compileScoped(
+    '<Callout>\n  {items.map(item => <p key={item}>{item}</p>)}\n</Callout>'
+  );
+
+  assert.match(
+    String(file),
+    /<CalloutParagraph key=\{item\}>\{item\}<\/CalloutParagraph>/
+  );
+  assert.deepEqual(
+    file.messages.map(message => message.reason),
+    ['Renamed <p> to <CalloutParagraph> in expression (scope "Callout")']
+  );
+});
+
+test('strict fails on an unknown component inside an expression', async () => {
+  await assert.rejects(
+    compileScoped('<Callout>\n  {true && <Evil />}\n</Callout>', {
+      strict: true,
+      componentNames: ['Callout', 'CalloutParagraph']
+    }),
+    /Unknown component <Evil> in expression/
+  );
+});
+
+test('allowedInScope reports elements inside an expression', async () => {
+  const file = await compileScoped(
+    '<Callout>\n  {true && <Evil />}\n</Callout>',
+    { allowedInScope: { Callout: ['p'] } }
+  );
+
+  assert.deepEqual(
+    file.messages
+      .filter(message => message.ruleId === 'scoped-mdx:not-allowed')
+      .map(message => message.reason),
+    ['<Evil> in expression is not allowed in <Callout> (scope "Callout")']
+  );
+});
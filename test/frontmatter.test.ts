@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compile } from '@mdx-js/mdx';
+import remarkFrontmatter from 'remark-frontmatter';
+
+import { remarkScopedMdx } from '../src/plugin';
+import type { ScopedMdxTransformRegistry } from '../src/types';
+
+const registry: ScopedMdxTransformRegistry = {
+  Article: {
+    renameMarkdown: { paragraph: { component: { name: 'Lead' } } }
+  }
+};
+
+const compileWithFrontmatter = async (source: string): Promise<string> =>
+  String(
+    await compile(source, {
+      jsx: true,
+      remarkPlugins: [remarkFrontmatter, [remarkScopedMdx, registry]]
+    })
+  );
+
+test('frontmatter is read from the yaml node without vfile-matter', async () => {
+  const output = await compileWithFrontmatter(
+    '---\nscopedMdx:\n  scope: Article\n---\n\nHello'
+  );
+
+  assert.match(output, /<Lead>\{"Hello"\}<\/Lead>/);
+});
+
+test('frontmatter from the yaml node is validated', async () => {
+  await assert.rejects(
+    compileWithFrontmatter('---\nscopedMdx:\n  scope: Unknown\n---\n\nHello'),
+    /Unknown/
+  );
+});
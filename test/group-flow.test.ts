@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compile } from '@mdx-js/mdx';
+
+import { remarkScopedMdx } from '../src/plugin';
+import type { ScopedMdxTransformRegistry } from '../src/types';
+
+const registry: ScopedMdxTransformRegistry = {
+  Guide: {
+    groupFlow: { Step: { component: { name: 'Steps' } } }
+  }
+};
+
+test('the group message counts the grouped elements only', async () => {
+  const file = await compile('<Guide><Step /> <Step /></Guide>', {
+    jsx: true,
+    remarkPlugins: [[remarkScopedMdx, registry]]
+  });
+
+  assert.match(String(file), /<Steps><Step \/><Step \/><\/Steps>/);
+  assert.deepEqual(
+    file.messages.map(message => message.reason),
+    ['Grouped 2 element(s) into <Steps> (scope "Guide")']
+  );
+});
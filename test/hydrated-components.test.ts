@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  type TransformAwareRegistry,
+  expandHydratedComponentNames,
+  resolveHydratedComponentNames
+} from '../src/registry-adapter';
+
+const componentDefinitions: TransformAwareRegistry = {
+  Timeline: {
+    mdxTransform: {
+      renameFlow: { section: { component: { name: 'MessageGroup' } } }
+    }
+  },
+  MessageGroup: {
+    mdxTransform: {
+      renameFlow: { p: { component: { name: 'MessageParagraph' } } }
+    }
+  },
+  MessageParagraph: {},
+  Ping: {
+    mdxTransform: { renameFlow: { p: { component: { name: 'Pong' } } } }
+  },
+  Pong: {
+    mdxTransform: { renameFlow: { p: { component: { name: 'Ping' } } } }
+  }
+};
+
+test('targets that are scopes contribute their own targets', () => {
+  const original = new Set(['Timeline']);
+  const names = expandHydratedComponentNames(original, componentDefinitions);
+
+  assert.deepEqual(
+    [...names],
+    ['Timeline', 'MessageGroup', 'MessageParagraph']
+  );
+  assert.deepEqual([...original], ['Timeline']);
+});
+
+test('diagnostics list missing names and the path to each name', () => {
+  const { names, diagnostics } = resolveHydratedComponentNames(
+    new Set(['Timeline', 'div', 'Ping']),
+    componentDefinitions
+  );
+
+  assert.deepEqual(
+    [...names],
+    ['Timeline', 'div', 'Ping', 'MessageGroup', 'Pong', 'MessageParagraph']
+  );
+  assert.deepEqual(diagnostics.missing, ['div']);
+  assert.deepEqual(diagnostics.paths, {
+    Timeline: ['Timeline'],
+    div: ['div'],
+    Ping: ['Ping'],
+    MessageGroup: ['Timeline', 'MessageGroup'],
+    Pong: ['Ping', 'Pong'],
+    MessageParagraph: ['Timeline', 'MessageGroup', 'MessageParagraph']
+  });
+});
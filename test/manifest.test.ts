@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+
+import { buildComponentManifest } from '../src/manifest';
+
+const execFileAsync = promisify(execFile);
+
+test('buildComponentManifest walks nested folders with the plugin options', async () => {
+  const root = await mkdtemp(path.join(tmpdir(), 'scoped-mdx-manifest-'));
+  try {
+    await mkdir(path.join(root, 'blog', 'drafts'), { recursive: true });
+    await writeFile(path.join(root, 'index.mdx'), '<Callout>Hi</Callout>\n');
+    await writeFile(path.join(root, 'blog', 'drafts', 'intro.mdx'), 'Hello\n');
+    await writeFile(path.join(root, 'blog', 'notes.md'), 'Skipped\n');
+
+    const manifest = await buildComponentManifest({
+      root,
+      registry: {
+        Article: {
+          renameMarkdown: { paragraph: { component: { name: 'Lead' } } }
+        }
+      },
+      pluginOptions: { rootScope: 'Article' }
+    });
+
+    assert.deepEqual(manifest.files, {
+      'blog/drafts/intro.mdx': ['Lead'],
+      'index.mdx': ['Callout']
+    });
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
+
+test('the CLI passes the opaque components of --components to the plugin', async () => {
+  const root = await mkdtemp(path.join(tmpdir(), 'scoped-mdx-manifest-cli-'));
+  try {
+    await writeFile(
+      path.join(root, 'components.mjs'),
+      `export default {
+  Callout: {
+    mdxTransform: { renameFlow: { p: { component: { name: 'Note' } } } }
+  },
+  Raw: { opaque: true },
+  Note: {}
+};
+`
+    );
+    await writeFile(
+      path.join(root, 'index.mdx'),
+      '<Callout>\n<Raw>\n<p>Kept</p>\n</Raw>\n</Callout>\n'
+    );
+
+    const { stdout } = await execFileAsync(
+      process.execPath,
+      [
+        '--import',
+        'tsx',
+        'src/manifest-cli.ts',
+        root,
+        '--components',
+        path.join(root, 'components.mjs')
+      ],
+      { timeout: 60_000 }
+    );
+
+    assert.deepEqual(JSON.parse(stdout).files, {
+      'index.mdx': ['Callout', 'Raw']
+    });
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+});
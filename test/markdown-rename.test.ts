@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compile } from '@mdx-js/mdx';
+
+import { remarkScopedMdx } from '../src/plugin';
+import type { ScopedMdxTransformRegistry } from '../src/types';
+
+const registry: ScopedMdxTransformRegistry = {
+  ArticleScope: {
+    renameMarkdown: {
+      image: { component: { name: 'Img' } },
+      code: { component: { name: 'CodeBlock', props: { theme: 'dark' } } },
+      heading: { component: { name: 'SectionTitle' } },
+      list: { component: { name: 'Steps' } }
+    }
+  }
+};
+
+const compileScoped = async (source: string): Promise<string> =>
+  String(
+    await compile(source, {
+      jsx: true,
+      remarkPlugins: [[remarkScopedMdx, registry]]
+    })
+  );
+
+test('renameMarkdown keeps the src, alt and title of an image', async () => {
+  const output = await compileScoped(
+    '<ArticleScope>\n\n![Logo](/a.png "Home")\n\n</ArticleScope>'
+  );
+
+  assert.match(output, /<Img src="\/a\.png" alt="Logo" title="Home" \/>/);
+});
+
+test('renameMarkdown keeps code fields next to the target props', async () => {
+  const output = await compileScoped(
+    '<ArticleScope>\n\n```ts title=a\nconst a = 1;\n```\n\n</ArticleScope>'
+  );
+
+  assert.match(output, /<CodeBlock lang="ts" meta="title=a" theme=\{"dark"\}>/);
+  assert.match(output, /const a = 1;/);
+});
+
+test('renameMarkdown keeps the heading depth as a literal', async () => {
+  const output = await compileScoped(
+    '<ArticleScope>\n\n## Intro\n\n</ArticleScope>'
+  );
+
+  assert.match(output, /<SectionTitle depth=\{2\}>\{"Intro"\}<\/SectionTitle>/);
+});
+
+test('renameMarkdown keeps the paragraphs of a loose list', async () => {
+  const output = await compileScoped(
+    '<ArticleScope>\n\n1. a\n\n   b\n2. c\n\n</ArticleScope>'
+  );
+
+  assert.match(
+    output,
+    /<_components\.li><_components\.p>\{"a"\}<\/_components\.p><_components\.p>\{"b"\}<\/_components\.p><\/_components\.li>/
+  );
+  assert.match(
+    output,
+    /<_components\.li><_components\.p>\{"c"\}<\/_components\.p><\/_components\.li>/
+  );
+});
+
+test('renameMarkdown keeps a tight list tight', async () => {
+  const output = await compileScoped(
+    '<ArticleScope>\n\n- a\n- b\n\n</ArticleScope>'
+  );
+
+  assert.match(output, /<_components\.li>\{"a"\}<\/_components\.li>/);
+});
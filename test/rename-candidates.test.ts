@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { MdxRenameCandidate } from '../src/types';
+import { selectRenameTarget } from '../src/rename-candidates';
+
+const remote = { component: { name: 'RemoteImage' } };
+const local = { component: { name: 'LocalImage' } };
+
+test('a RegExp predicate is shorthand for { regex }', () => {
+  const candidates: MdxRenameCandidate[] = [
+    { when: { src: /^https:\/\// }, to: remote },
+    { to: local }
+  ];
+
+  assert.equal(
+    selectRenameTarget(candidates, () => ({ src: 'https://a.dev/a.png' })),
+    remote
+  );
+  assert.equal(
+    selectRenameTarget(candidates, () => ({ src: '/a.png' })),
+    local
+  );
+  assert.equal(
+    selectRenameTarget(candidates, () => ({})),
+    local
+  );
+});
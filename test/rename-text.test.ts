@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compile } from '@mdx-js/mdx';
+
+import { remarkScopedMdx } from '../src/plugin';
+import type { ScopedMdxTransformRegistry } from '../src/types';
+
+const registry: ScopedMdxTransformRegistry = {
+  Message: {
+    renameText: {
+      br: {
+        component: { name: 'LineBreak' },
+        transformOptions: { childrenPolicy: 'clear' }
+      },
+      em: { component: { name: 'Stress' } }
+    }
+  }
+};
+
+const compileScoped = async (source: string): Promise<string> =>
+  String(
+    await compile(source, {
+      jsx: true,
+      remarkPlugins: [[remarkScopedMdx, registry]]
+    })
+  );
+
+test('renameText renames inline JSX directly inside a scope', async () => {
+  const output = await compileScoped(
+    '<Message>Hello <br /> world <em>now</em></Message>'
+  );
+
+  assert.match(
+    output,
+    /<Message>\{"Hello "\}<LineBreak \/>\{" world "\}<Stress>\{"now"\}<\/Stress><\/Message>/
+  );
+});
+
+test('renameText renames inline JSX nested in flow content', async () => {
+  const output = await compileScoped(
+    '<Message>\n<p>Hello<br/>world</p>\n</Message>'
+  );
+
+  assert.match(output, /<p>\{"Hello"\}<LineBreak \/>\{"world"\}<\/p>/);
+});
+
+test('renameText leaves inline JSX outside scopes alone', async () => {
+  const output = await compileScoped('Hello <br /> world');
+
+  assert.match(output, /\{"Hello "\}<br \/>\{" world"\}/);
+  assert.doesNotMatch(output, /LineBreak/);
+});
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compile } from '@mdx-js/mdx';
+
+import { remarkScopedMdx } from '../src/plugin';
+import type { ScopedMdxTransformRegistry } from '../src/types';
+
+const registry: ScopedMdxTransformRegistry = {
+  Callout: {
+    renameFlow: {
+      p: {
+        component: {
+          name: 'CalloutParagraph',
+          props: { className: 'alert', items: [1, 2] }
+        },
+        inheritFromScope: { tone: 'tone' },
+        transformOptions: { attributePolicy: 'merge-target-wins' }
+      }
+    }
+  }
+};
+
+test('plan props are the final attributes of the rewritten element', async () => {
+  const file = await compile(
+    '<Callout tone="warning">\n  <p id="intro" className="lead" data={x}>Hi</p>\n</Callout>',
+    { remarkPlugins: [[remarkScopedMdx, registry, { mode: 'report' }]] }
+  );
+
+  const [rewrite] = file.data.scopedMdx?.plan ?? [];
+  assert.deepEqual(rewrite?.props, {
+    id: 'intro',
+    className: 'lead alert',
+    items: [1, 2],
+    tone: 'warning'
+  });
+});
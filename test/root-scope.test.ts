@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compile } from '@mdx-js/mdx';
+
+import { remarkScopedMdx } from '../src/plugin';
+import type {
+  ScopedMdxPluginOptions,
+  ScopedMdxTransformRegistry
+} from '../src/types';
+
+const registry: ScopedMdxTransformRegistry = {
+  Article: {
+    renameMarkdown: { paragraph: { component: { name: 'Lead' } } }
+  },
+  Callout: {}
+};
+
+const compileScoped = async (
+  source: string,
+  options: ScopedMdxPluginOptions
+): Promise<string> =>
+  String(
+    await compile(source, {
+      jsx: true,
+      remarkPlugins: [[remarkScopedMdx, registry, options]]
+    })
+  );
+
+test('rootScope applies a scope to the whole document', async () => {
+  const output = await compileScoped('Hi\n\n<Callout>\nIn\n</Callout>', {
+    rootScope: 'Article'
+  });
+
+  assert.match(
+    output,
+    /<><Lead>\{"Hi"\}<\/Lead>\{"\\n"\}<Callout><_components\.p>\{"In"\}<\/_components\.p><\/Callout><\/>/
+  );
+});
+
+test('wrapRootScope wraps the content but not ESM', async () => {
+  const output = await compileScoped('export const a = 1\n\nHi', {
+    rootScope: 'Article',
+    wrapRootScope: true
+  });
+
+  assert.match(output, /^export const a = 1;$/m);
+  assert.match(output, /<Article><Lead>\{"Hi"\}<\/Lead><\/Article>/);
+});
+
+test('a frontmatter scope applies without the option', async () => {
+  const output = await compileScoped('Hi', {
+    readFrontmatter: () => ({ scopedMdx: { scope: 'Article' } })
+  });
+
+  assert.match(output, /<Lead>\{"Hi"\}<\/Lead>/);
+});
+
+test('rootScope must be a configured scope', async () => {
+  await assert.rejects(
+    compileScoped('Hi', { rootScope: 'Aside' }),
+    /rootScope: "Aside" is not a configured scope/
+  );
+});
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  type TransformAwareRegistry,
+  deriveMdxTransformRegistry
+} from '../src/registry-adapter';
+
+test('extends flattens the base rule with overrides and omissions', () => {
+  const registry = deriveMdxTransformRegistry({
+    BaseScope: {
+      mdxTransform: {
+        renameFlow: {
+          p: { component: { name: 'BaseParagraph' } },
+          h2: { component: { name: 'Heading' } },
+          br: { component: { name: 'Break' } }
+        },
+        removeFlow: ['hr']
+      }
+    },
+    Callout: {
+      mdxTransform: {
+        extends: 'BaseScope',
+        renameFlow: { p: { component: { name: 'CalloutParagraph' } } },
+        omit: { renameFlow: ['br'] }
+      }
+    }
+  });
+
+  assert.deepEqual(registry.Callout, {
+    renameFlow: {
+      p: { component: { name: 'CalloutParagraph' } },
+      h2: { component: { name: 'Heading' } }
+    },
+    removeFlow: ['hr']
+  });
+  assert.equal('extends' in registry.Callout!, false);
+});
+
+test('extends fails on cycles and on bases without a rule', () => {
+  const cyclic: TransformAwareRegistry = {
+    A: { mdxTransform: { extends: 'B' } },
+    B: { mdxTransform: { extends: 'A' } }
+  };
+
+  assert.throws(
+    () => deriveMdxTransformRegistry(cyclic),
+    /Cyclic transform rule extends: A -> B -> A/
+  );
+  assert.throws(
+    () =>
+      deriveMdxTransformRegistry({
+        Callout: { mdxTransform: { extends: 'Plain' } },
+        Plain: {}
+      }),
+    /"Callout" extends "Plain", which has no transform rule/
+  );
+});
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compile } from '@mdx-js/mdx';
+
+import { remarkScopedMdx } from '../src/plugin';
+import type {
+  MdxSandboxOptions,
+  ScopedMdxTransformRegistry
+} from '../src/types';
+
+const registry: ScopedMdxTransformRegistry = {
+  PartnerScope: {
+    renameMarkdown: { paragraph: { component: { name: 'PartnerParagraph' } } }
+  }
+};
+
+const source =
+  '<PartnerScope>\n<Badge onClick={go} title="t" dangerouslySetInnerHTML={{__html: x}} {...rest} />\n\nHi {name}\n\n<script>alert(1)</script>\n</PartnerScope>\n\n<Badge onClick={ok} />';
+
+const compileSandboxed = (sandbox: true | MdxSandboxOptions) =>
+  compile(source, {
+    jsx: true,
+    remarkPlugins: [
+      [
+        remarkScopedMdx,
+        registry,
+        {
+          sandbox: { PartnerScope: sandbox },
+          componentNames: ['PartnerScope', 'PartnerParagraph', 'Badge']
+        }
+      ]
+    ]
+  });
+
+test('a sandboxed scope strips handlers, expressions and unknown elements', async () => {
+  const file = await compileSandboxed(true);
+
+  assert.match(
+    String(file),
+    /<PartnerScope><Badge title="t" \/><PartnerParagraph>\{"Hi "\}<\/PartnerParagraph><\/PartnerScope>\{"\\n"\}<Badge onClick=\{ok\} \/>/
+  );
+  assert.deepEqual(
+    file.messages
+      .filter(message => message.ruleId === 'scoped-mdx:sandbox')
+      .map(message => [message.reason, message.line, message.column]),
+    [
+      ['Removed attribute onClick={…} of <Badge> (scope "PartnerScope")', 2, 8],
+      [
+        'Removed attribute dangerouslySetInnerHTML={…} of <Badge> (scope "PartnerScope")',
+        2,
+        31
+      ],
+      ['Removed attribute {...rest} of <Badge> (scope "PartnerScope")', 2, 69],
+      ['Removed expression (scope "PartnerScope")', 4, 4],
+      ['Removed unknown element <script> (scope "PartnerScope")', 6, 1]
+    ]
+  );
+});
+
+test('expressions: reject fails the file at the first expression', async () => {
+  await assert.rejects(
+    compileSandboxed({ expressions: 'reject' }),
+    /Rejected attribute \{\.\.\.rest\} of <Badge> \(scope "PartnerScope"\)/
+  );
+});
@@ -0,0 +1,122 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compile } from '@mdx-js/mdx';
+
+import type { IsValidSelector } from '../src/authoring/selector-syntax';
+import { remarkScopedMdx } from '../src/plugin';
+import { selectorSubjectName } from '../src/selectors';
+import type { ScopedMdxTransformRegistry } from '../src/types';
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+test('selector keys parse to their subject name', () => {
+  assert.equal(selectorSubjectName('p'), 'p');
+  assert.equal(selectorSubjectName('> p:first-child'), 'p');
+  assert.equal(selectorSubjectName('ul li > p'), 'p');
+  assert.equal(selectorSubjectName('img:not(:only-child)'), 'img');
+  assert.equal(selectorSubjectName('p:nth-child(2n + 1)'), 'p');
+  assert.equal(selectorSubjectName('motion.div'), 'motion.div');
+  assert.equal(selectorSubjectName('svg|rect'), 'svg:rect');
+  assert.equal(selectorSubjectName('my-tag'), 'my-tag');
+  assert.equal(selectorSubjectName(':first-child'), null);
+  assert.equal(selectorSubjectName('*'), null);
+});
+
+test('malformed selector keys throw', () => {
+  const malformed: Array<[key: string, reason: string]> = [
+    ['p, div', 'unexpected ","'],
+    ['p+q', 'unexpected "+"'],
+    ['p + q', 'unexpected "+"'],
+    ['p[x]', 'unexpected "["'],
+    ['1p', 'unexpected "1"'],
+    ['p >', 'expected an element name or a pseudo-class'],
+    ['p:frist-child', 'unknown pseudo-class ":frist-child"'],
+    ['svg:rect', 'write a namespaced name as "ns|rect"'],
+    ['p:nth-child(x)', 'invalid :nth-child(x) argument'],
+    ['p:not(a b)', ':not(...) accepts a single compound selector']
+  ];
+
+  for (const [key, reason] of malformed) {
+    assert.throws(
+      () => selectorSubjectName(key),
+      new RegExp(`Invalid selector "${escape(key)}": .*${escape(reason)}`),
+      key
+    );
+  }
+});
+
+test('the typed builder rejects the same keys', () => {
+  const valid: [
+    IsValidSelector<'li > p:first-child'>,
+    IsValidSelector<'svg|rect'>,
+    IsValidSelector<'motion.div'>
+  ] = [true, true, true];
+  const invalid: [
+    IsValidSelector<'p, div'>,
+    IsValidSelector<'p+q'>,
+    IsValidSelector<'p[x]'>
+  ] = [false, false, false];
+
+  assert.deepEqual(
+    [valid, invalid],
+    [
+      [true, true, true],
+      [false, false, false]
+    ]
+  );
+});
+
+test('structural selectors pick elements by position and ancestry', async () => {
+  const registry: ScopedMdxTransformRegistry = {
+    Article: {
+      renameFlow: {
+        p: { component: { name: 'Paragraph' } },
+        '> p:first-child': { component: { name: 'Lead' } },
+        'li > p': { component: { name: 'ItemParagraph' } },
+        'svg|rect': { component: { name: 'Box' } }
+      }
+    }
+  };
+  const output = String(
+    await compile(
+      [
+        '<Article>',
+        '  <p>a</p>',
+        '  <p>b</p>',
+        '  <ul>',
+        '    <li>',
+        '      <p>c</p>',
+        '    </li>',
+        '  </ul>',
+        '  <svg:rect />',
+        '</Article>'
+      ].join('\n'),
+      { jsx: true, remarkPlugins: [[remarkScopedMdx, registry]] }
+    )
+  );
+
+  assert.match(output, /<Lead>\{"a"\}<\/Lead>/);
+  assert.match(output, /<Paragraph>\{"b"\}<\/Paragraph>/);
+  assert.match(output, /<ItemParagraph>\{"c"\}<\/ItemParagraph>/);
+  assert.match(output, /<Box \/>/);
+});
+
+test('a malformed selector key fails when the plugin is created', async () => {
+  await assert.rejects(
+    async () =>
+      compile('Hi', {
+        remarkPlugins: [
+          [
+            remarkScopedMdx,
+            {
+              Article: {
+                renameFlow: { 'p, div': { component: { name: 'X' } } }
+              }
+            }
+          ]
+        ]
+      }),
+    /Invalid selector "p, div"/
+  );
+});
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compile } from '@mdx-js/mdx';
+
+import { remarkScopedMdx } from '../src/plugin';
+import type { ScopedMdxTransformRegistry } from '../src/types';
+
+const registry: ScopedMdxTransformRegistry = {
+  Article: {
+    wrapFlow: { img: { component: { name: 'Figure' } } },
+    unwrapFlow: ['div'],
+    removeFlow: ['> hr'],
+    prependToScope: [
+      {
+        component: {
+          name: 'ArticleHeader',
+          props: source => ({ title: source.attributes.title })
+        }
+      }
+    ],
+    appendToScope: [{ component: { name: 'ArticleFooter' } }]
+  },
+  Callout: {}
+};
+
+const compileScoped = async (source: string): Promise<string> =>
+  String(
+    await compile(source, {
+      jsx: true,
+      remarkPlugins: [[remarkScopedMdx, registry]]
+    })
+  );
+
+test('wrap, unwrap and remove apply to matches inside the scope', async () => {
+  const output = await compileScoped(
+    '<Article>\n<img src="a.png" />\n<div>\n<p>Hi</p>\n</div>\n<hr />\n<div>\n<hr />\n</div>\n</Article>'
+  );
+
+  assert.match(
+    output,
+    /<Figure><img src="a\.png" \/><\/Figure><p>\{"Hi"\}<\/p><hr \/><ArticleFooter \/>/
+  );
+});
+
+test('insertions go at the start and end of every scope element', async () => {
+  const output = await compileScoped(
+    '<Article title="Intro">\n<p>Hi</p>\n</Article>'
+  );
+
+  assert.match(
+    output,
+    /<Article title="Intro"><ArticleHeader title=\{"Intro"\} \/><p>\{"Hi"\}<\/p><ArticleFooter \/><\/Article>/
+  );
+});
+
+test('structural edits stop at nested scopes', async () => {
+  const output = await compileScoped(
+    '<Article>\n<Callout>\n<div>\n<img src="a.png" />\n</div>\n</Callout>\n</Article>'
+  );
+
+  assert.match(output, /<Callout><div><img src="a\.png" \/><\/div><\/Callout>/);
+});
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compile } from '@mdx-js/mdx';
+
+import { remarkScopedMdx } from '../src/plugin';
+import type {
+  ScopedMdxPluginOptions,
+  ScopedMdxTransformRegistry
+} from '../src/types';
+
+const registry: ScopedMdxTransformRegistry = {
+  Article: { renameFlow: { p: { component: { name: 'Paragraph' } } } }
+};
+
+const source = '<Article>\n<p>Hi</p>\n</Article>\n\n<Badge />';
+
+const compileScoped = (options?: ScopedMdxPluginOptions) =>
+  compile(source, {
+    jsx: true,
+    remarkPlugins: [[remarkScopedMdx, registry, options]]
+  });
+
+test('used components are the JSX names of the rewritten tree', async () => {
+  const file = await compileScoped();
+
+  assert.deepEqual(file.data.scopedMdx?.usedComponents, [
+    'Article',
+    'Badge',
+    'Paragraph'
+  ]);
+  assert.doesNotMatch(String(file), /export const/);
+});
+
+test('exportUsedComponents emits the list from the compiled module', async () => {
+  assert.match(
+    String(await compileScoped({ exportUsedComponents: true })),
+    /export const scopedComponents = \["Article", "Badge", "Paragraph"\];/
+  );
+  assert.match(
+    String(await compileScoped({ exportUsedComponents: 'components' })),
+    /export const components = \["Article", "Badge", "Paragraph"\];/
+  );
+});
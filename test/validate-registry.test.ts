@@ -0,0 +1,120 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compile } from '@mdx-js/mdx';
+
+import { remarkScopedMdx } from '../src/plugin';
+import { validateRegistry } from '../src/validate-registry';
+
+test('a target that is itself a scope is reported', () => {
+  const problems = validateRegistry({
+    Callout: { renameFlow: { p: { component: { name: 'Note' } } } },
+    Note: { renameFlow: { p: { component: { name: 'NoteParagraph' } } } }
+  });
+
+  assert.deepEqual(problems, [
+    {
+      code: 'scope-target',
+      scope: 'Callout',
+      table: 'renameFlow',
+      key: 'p',
+      target: 'Note',
+      message:
+        '"Callout" renameFlow["p"]: target "Note" is a scope; rewritten elements become nested scope boundaries'
+    }
+  ]);
+});
+
+test('validateRegistry reports one problem per mistake', () => {
+  const problems = validateRegistry(
+    {
+      Callout: {
+        renameFlow: {
+          'p >': { component: { name: 'CalloutParagraph' } },
+          br: { component: { name: 'br' } },
+          img: {
+            component: { name: 'CalloutImage', props: { onLoad: () => {} } }
+          }
+        },
+        wrapFlow: {
+          pre: {
+            component: { name: 'Frame' },
+            transformOptions: { childrenPolicy: 'clear' }
+          }
+        },
+        variants: [
+          {
+            when: { tone: 'info' },
+            rule: { renameText: { a: { component: { name: 'Lnk' } } } }
+          }
+        ]
+      }
+    },
+    {
+      componentNames: [
+        'Callout',
+        'CalloutParagraph',
+        'CalloutImage',
+        'Frame',
+        'br'
+      ]
+    }
+  );
+
+  assert.deepEqual(
+    problems.map(problem => [problem.code, problem.table, problem.key]),
+    [
+      ['invalid-selector', 'renameFlow', 'p >'],
+      ['self-rename', 'renameFlow', 'br'],
+      ['unserializable-prop', 'renameFlow', 'img'],
+      ['clear-needs-children', 'wrapFlow', 'pre'],
+      ['unknown-target', 'variants[0].renameText', 'a']
+    ]
+  );
+});
+
+test('onInvalid: "throw" fails when the plugin is created', async () => {
+  await assert.rejects(
+    async () =>
+      compile('Hi', {
+        remarkPlugins: [
+          [
+            remarkScopedMdx,
+            {
+              Callout: { renameFlow: { 'p >': { component: { name: 'X' } } } }
+            },
+            { onInvalid: 'throw' }
+          ]
+        ]
+      }),
+    /Invalid scoped MDX registry/
+  );
+});
+
+test('the plugin reports registry problems on the processed file', async () => {
+  const warn = mock.method(console, 'warn', () => {});
+  try {
+    const file = await compile('<Callout>Hi</Callout>', {
+      remarkPlugins: [
+        [
+          remarkScopedMdx,
+          { Callout: { renameFlow: { p: { component: { name: 'Para' } } } } },
+          { componentNames: ['Callout'] }
+        ]
+      ]
+    });
+
+    assert.deepEqual(
+      file.messages.map(message => [message.ruleId, message.reason]),
+      [
+        [
+          'scoped-mdx:registry',
+          '"Callout" renameFlow["p"]: target "Para" is not a registered component'
+        ]
+      ]
+    );
+    assert.equal(warn.mock.callCount(), 0);
+  } finally {
+    warn.mock.restore();
+  }
+});
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { compile } from '@mdx-js/mdx';
+
+import { remarkScopedMdx } from '../src/plugin';
+import type { ScopedMdxTransformRegistry } from '../src/types';
+
+const registry: ScopedMdxTransformRegistry = {
+  Article: {
+    renameFlow: { p: { component: { name: 'ArticleParagraph' } } },
+    variants: [
+      {
+        when: { variant: 'compact' },
+        rule: { renameFlow: { p: { component: { name: 'CompactParagraph' } } } }
+      },
+      {
+        when: { variant: 'full', wide: true },
+        rule: { renameText: { br: { component: { name: 'Break' } } } }
+      }
+    ]
+  }
+};
+
+const compileScoped = async (source: string): Promise<string> =>
+  String(
+    await compile(source, {
+      jsx: true,
+      remarkPlugins: [[remarkScopedMdx, registry]]
+    })
+  );
+
+test('the first variant matching the scope attributes wins', async () => {
+  const output = await compileScoped(
+    '<Article variant="compact">\n<p>a</p>\n</Article>'
+  );
+
+  assert.match(output, /<CompactParagraph>\{"a"\}<\/CompactParagraph>/);
+});
+
+test('literal expression attributes match like strings', async () => {
+  const output = await compileScoped(
+    '<Article variant={"compact"}>\n<p>a</p>\n</Article>'
+  );
+
+  assert.match(output, /<CompactParagraph>/);
+});
+
+test('without a matching variant the default tables apply', async () => {
+  const output = await compileScoped(
+    '<Article>\n<p>a</p>\n</Article>\n\n<Article variant="full">\n<p>b<br/></p>\n</Article>'
+  );
+
+  assert.match(output, /<ArticleParagraph>\{"a"\}<\/ArticleParagraph>/);
+  assert.match(output, /<ArticleParagraph>\{"b"\}<br \/><\/ArticleParagraph>/);
+});
+
+test('tables a variant does not declare fall back to the defaults', async () => {
+  const output = await compileScoped(
+    '<Article variant="full" wide>\n<p>a<br/></p>\n</Article>'
+  );
+
+  assert.match(
+    output,
+    /<ArticleParagraph>\{"a"\}<Break \/><\/ArticleParagraph>/
+  );
+});
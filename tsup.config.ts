@@ -1,7 +1,7 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/manifest.ts', 'src/manifest-cli.ts'],
   format: ['esm'],
   dts: {
     compilerOptions: {
@@ -9,7 +9,7 @@ export default defineConfig({
     }
   },
   clean: true,
-  splitting: false,
+  splitting: true,
   treeshake: true,
   sourcemap: false,
   target: 'es2022'